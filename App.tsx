@@ -1,21 +1,126 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useAudioRecorder } from './hooks/useAudioRecorder';
-import { transcribeAudio, analyzeTranscript } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useAudioRecorder, AudioSourceKind } from './hooks/useAudioRecorder';
+import { useSessionLibrary } from './hooks/useSessionLibrary';
+import { useChunkQueue } from './hooks/useChunkQueue';
+import { useMeetingChat } from './hooks/useMeetingChat';
+import { useTranscriptEditor } from './hooks/useTranscriptEditor';
+import { useChunkTranslation } from './hooks/useChunkTranslation';
+import { useAudioInputs } from './hooks/useAudioInputs';
+import { useSessionAudio } from './hooks/useSessionAudio';
+import { transcribeAudio, analyzeTranscript, askAboutTranscript, translateText, detectChapters, loadProviderSettings, applyProviderSettings, applyGlossary } from './services/providers';
+import { loadGlossary } from './services/glossary';
+import { resetLocalScript } from './services/localProvider';
+import { withChunkText, languageName, loadTargetLanguage, saveTargetLanguage } from './services/translation';
+import { BUILT_IN_PRESETS, DEFAULT_PRESET_ID, findPreset, loadCustomPresets, saveCustomPresets, loadDefaultPresetId, saveDefaultPresetId } from './services/analysisPresets';
 import { TranscriptView } from './components/TranscriptView';
 import { AnalysisView } from './components/AnalysisView';
-import { TranscriptChunk, RecordingState } from './types';
+import { ChatPanel } from './components/ChatPanel';
+import { ActionItemsPanel } from './components/ActionItemsPanel';
+import { DecisionLogPanel } from './components/DecisionLogPanel';
+import { ParticipationPanel } from './components/ParticipationPanel';
+import { PanelTabs, PanelTab } from './components/PanelTabs';
+import { SessionSidebar } from './components/SessionSidebar';
+import { SearchPanel } from './components/SearchPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { PresetEditor } from './components/PresetEditor';
+import { RecapComposer } from './components/RecapComposer';
+import { AudioInputControls } from './components/AudioInputControls';
+import { ImportProgress, ImportProgressState } from './components/ImportProgress';
+import { mergeChunkText } from './services/chunkMerge';
+import { buildChapters } from './services/chapters';
+import { withRetry } from './services/retry';
+import { exportTranscript, parseTranscriptJson, TranscriptExportFormat, TRANSCRIPT_EXPORT_FORMATS } from './services/transcriptExport';
+import { downloadFile, fileTimestamp, slugify } from './services/download';
+import { SearchDocument } from './services/searchIndex';
+import { buildChatContext, buildCitationIndex, formatCitationLabel } from './services/meetingChat';
+import { mergeActionItems, parseOwner, parseDueDate } from './services/actionItems';
+import { computeSpeakingStats } from './services/speakingStats';
+import { mergeDecisionLog, openQuestions, buildOpenQuestionsReport } from './services/decisionLog';
+import { exportActionItems, countCalendarEntries, ActionItemExportFormat, ACTION_ITEM_EXPORT_FORMATS } from './services/actionItemExport';
+import { RecapData } from './services/recapEmail';
+import { emptySpeakerRegistry, renameSpeaker, mergeSpeakers, unmergeSpeaker, applySpeakerNames, listSpeakerLabels, resolveSpeaker } from './services/speakers';
+import { decodeAudioFile, splitIntoSegments, encodeWav, isSupportedImportFile, IMPORT_ACCEPT } from './services/audioImport';
+import { TranscriptChunk, RecordingState, AnalysisResult, AnalysisVersion, AudioSourceMode, Session, SessionMeta, ProviderSettings, PendingChunk, SpeakerRegistry, ActionItem, DecisionLogEntry, GlossaryEntry, AnalysisPreset, Chapter } from './types';
 import { Toast } from './components/Toast';
 
+// Use newline to separate chunks properly for the analysis engine to detect speaker lines
+const buildFullTranscript = (chunks: TranscriptChunk[]) =>
+  chunks.map(chunk => "\n" + chunk.text).join("");
+
+type SidePanelTab = 'chat' | 'tasks' | 'decisions' | 'participation';
+
+// Live chunks and their stored audio segment share this id
+const liveChunkId = (timestamp: number, sequence: number) => `${timestamp}-${sequence}`;
+
+// Whether a chunk was transcribed from the live segment with this sequence number
+const isLiveChunkOf = (chunk: TranscriptChunk, sequence: number) => chunk.id.endsWith(`-${sequence}`);
+
+const isTranscriptJsonFile = (file: File) =>
+  file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+
+const createSessionMeta = (audioSource: AudioSourceMode, title?: string): SessionMeta => {
+  const startedAt = Date.now();
+  const started = new Date(startedAt);
+  return {
+    id: startedAt.toString(),
+    title: title ?? `Meeting ${started.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${started.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+    startedAt,
+    audioSource
+  };
+};
 
 function App() {
   const APP_NAME = "Scribo";
   const APP_SUBTITLE = "Intelligent Meeting Assistant";
 
   const [transcriptChunks, setTranscriptChunks] = useState<TranscriptChunk[]>([]);
-  const [fullTranscript, setFullTranscript] = useState<string>("");
-  const [analysisResult, setAnalysisResult] = useState<string>("");
+  // Derived so seam merges that trim the previous chunk are reflected in the analysis input
+  const fullTranscript = useMemo(() => buildFullTranscript(transcriptChunks), [transcriptChunks]);
+  const [analysisVersions, setAnalysisVersions] = useState<AnalysisVersion[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [lastAnalyzedLength, setLastAnalyzedLength] = useState(0);
+  // Set when recording stops; the full final pass runs once the last chunks are transcribed
+  const [awaitingFinalAnalysis, setAwaitingFinalAnalysis] = useState(false);
+  const latestAnalysis = analysisVersions[analysisVersions.length - 1];
+  const analysisResult = latestAnalysis?.result ?? null;
+  const [speakerRegistry, setSpeakerRegistry] = useState<SpeakerRegistry>(emptySpeakerRegistry);
+  // Long-running imports read names given while they were transcribing
+  const speakerRegistryRef = useRef(speakerRegistry);
+  speakerRegistryRef.current = speakerRegistry;
+  const transcriptChunksRef = useRef(transcriptChunks);
+  transcriptChunksRef.current = transcriptChunks;
+  // Meeting type the analysis is tailored to; saved with the session and remembered for new ones
+  const [customPresets, setCustomPresets] = useState<AnalysisPreset[]>(loadCustomPresets);
+  const [analysisPresetId, setAnalysisPresetId] = useState(loadDefaultPresetId);
+  const [isPresetEditorOpen, setIsPresetEditorOpen] = useState(false);
+  const analysisPresets = useMemo(() => [...BUILT_IN_PRESETS, ...customPresets], [customPresets]);
+  const activePreset = findPreset(analysisPresets, analysisPresetId);
+  // Language chunks are translated into and the analysis is written in; empty when not translating
+  const [targetLanguage, setTargetLanguage] = useState(loadTargetLanguage);
+  // Tasks collected from every analysis, kept even when a later analysis drops them
+  const [actionItems, setActionItems] = useState<ActionItem[]>([]);
+  // Decisions and questions, tracked like tasks so answered questions can be told from open ones
+  const [decisionLog, setDecisionLog] = useState<DecisionLogEntry[]>([]);
+  const decisionLogRef = useRef(decisionLog);
+  decisionLogRef.current = decisionLog;
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [isDetectingChapters, setIsDetectingChapters] = useState(false);
+
+  // Session library state
+  const [activeSession, setActiveSession] = useState<SessionMeta | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // Bumped whenever the workspace switches session so late analysis/import results are discarded
+  const sessionEpochRef = useRef(0);
+  // Epoch the running recording started in. Stopping is asynchronous, so its last segment can arrive
+  // after the workspace has moved on to another session.
+  const recordingEpochRef = useRef(0);
+
+  // File import state
+  const [importProgress, setImportProgress] = useState<ImportProgressState | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const importCancelledRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Initialize from localStorage to remember preference across reloads
   const [enableSystemAudio, setEnableSystemAudio] = useState(() => {
@@ -26,47 +131,99 @@ function App() {
     return true;
   });
   
+  // Transcription/analysis backends, persisted by the provider registry
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isRecapOpen, setIsRecapOpen] = useState(false);
+  // Workspace vocabulary, persisted by the provider registry
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(loadGlossary);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
   // Error handling state
   const [toast, setToast] = useState<{message: string, type: 'error' | 'success' | 'info'} | null>(null);
 
   // Constants
-  const CHUNK_INTERVAL = 8000; // 8 seconds per audio chunk
+  const CHUNK_INTERVAL = 8000; // 8 seconds per imported audio chunk (and live chunk if VAD is off)
+  const CHUNK_OVERLAP = 1500; // Forced mid-speech cuts also record the first 1.5s of the next chunk, de-duplicated on merge
+  // Live segments close at natural pauses between these bounds; pure-silence segments are never sent
+  const VAD_OPTIONS = { minSegmentMs: 4000, maxSegmentMs: 15000, minSilenceMs: 600, silenceThreshold: 0.01 };
+  const TRANSCRIPTION_CONCURRENCY = 2; // Chunks transcribed in parallel; results still commit in order
   const ANALYSIS_TRIGGER_LENGTH = 150; // Analyze after approx 150 characters of new text
+  const FINAL_ANALYSIS_SETTLE_MS = 1500; // Wait this long with no chunks in flight before the final pass
 
   const showToast = (message: string, type: 'error' | 'success' | 'info' = 'error') => {
     setToast({ message, type });
   };
 
-  const handleAudioChunk = useCallback(async (blob: Blob) => {
-    processAudioChunk(blob);
+  const handleLibraryError = useCallback((message: string) => {
+    setToast({ message, type: 'error' });
   }, []);
 
-  const processAudioChunk = async (blob: Blob) => {
-    try {
-      const text = await transcribeAudio(blob);
-      if (!text) return;
-
-      const newChunk: TranscriptChunk = {
-        id: Date.now().toString(),
-        text,
-        timestamp: Date.now(),
-        isFinal: true
-      };
-
-      setTranscriptChunks(prev => [...prev, newChunk]);
-      // Use newline to separate chunks properly for the analysis engine to detect speaker lines
-      setFullTranscript(prev => prev + "\n" + text);
-    } catch (error: any) {
-      // Log error but don't spam toasts for every single chunk failure unless it's critical
-      console.warn("Chunk processing failed:", error);
-      // Only show toast if we are just starting or it's a critical auth error
-      if (transcriptChunks.length === 0 || String(error).includes("API Key")) {
-         showToast(error.message, 'error');
+  const { sessions, isLoading: isLibraryLoading, upsertSession, loadSession, renameSession, removeSession } = useSessionLibrary({
+    onError: handleLibraryError
+  });
+  // Read by the autosave effect, which would re-run on its own saves if it depended on the list
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+
+  const sessionAudio = useSessionAudio({
+    sessionId: activeSession?.id ?? null,
+    onError: handleLibraryError
+  });
+  const addAudioSegment = sessionAudio.addSegment;
+
+  // Commits transcribed chunks at their capture position, so retried chunks land where they were spoken
+  const commitChunk = useCallback((text: string, entry: PendingChunk) => {
+    if (entry.sessionEpoch !== sessionEpochRef.current) return;
+    const newChunk: TranscriptChunk = {
+      id: liveChunkId(entry.timestamp, entry.sequence),
+      text,
+      timestamp: entry.timestamp,
+      isFinal: true
+    };
+
+    setTranscriptChunks(prev => {
+      const nextIndex = prev.findIndex(chunk => chunk.timestamp > newChunk.timestamp);
+      const insertAt = nextIndex === -1 ? prev.length : nextIndex;
+      const before = prev[insertAt - 1];
+      if (!before) return [newChunk, ...prev];
+
+      // Only a segment recorded over the end of the one before it repeats its words; cuts at pauses,
+      // the first segment after a resume and neighbours of a retried chunk are left as transcribed
+      if (!entry.overlapsPrevious || !isLiveChunkOf(before, entry.sequence - 1)) {
+        return [...prev.slice(0, insertAt), newChunk, ...prev.slice(insertAt)];
       }
-    }
-  };
 
-  const { recordingState, startRecording, stopRecording } = useAudioRecorder({
+      const merged = mergeChunkText(before.text, text);
+      const updatedBefore = merged.previousText.trim() ? withChunkText(before, merged.previousText) : before;
+      // Everything in the new chunk was already heard; its audio stays part of the session recording
+      if (!merged.text) return [...prev.slice(0, insertAt - 1), updatedBefore, ...prev.slice(insertAt)];
+      return [...prev.slice(0, insertAt - 1), updatedBefore, { ...newChunk, text: merged.text }, ...prev.slice(insertAt)];
+    });
+  }, []);
+
+  const { pendingChunks, enqueue: enqueueChunk, retry: retryChunk, reset: resetChunkQueue } = useChunkQueue({
+    transcribe: transcribeAudio,
+    onCommit: commitChunk,
+    onFailure: (error) => {
+      // Failed chunks are shown inline with a retry button; only auth problems need a toast
+      if (String(error).includes("API Key")) showToast(error.message, 'error');
+    },
+    concurrency: TRANSCRIPTION_CONCURRENCY
+  });
+
+  // The audio is kept under the id its transcript chunk will get, so the chunk can play it back
+  const handleAudioChunk = useCallback((blob: Blob, startedAt: number, overlapsPrevious: boolean) => {
+    const epoch = recordingEpochRef.current;
+    if (epoch !== sessionEpochRef.current) return;
+    const sequence = enqueueChunk(blob, startedAt, overlapsPrevious, epoch);
+    addAudioSegment(liveChunkId(startedAt, sequence), blob, startedAt);
+  }, [enqueueChunk, addAudioSegment]);
+
+  const { devices: micDevices, micDeviceId, selectMic, gains: audioGains, setGain: setAudioGain, refreshDevices } = useAudioInputs();
+
+  const { recordingState, startRecording, stopRecording, pauseRecording, resumeRecording, readLevels } = useAudioRecorder({
     onAudioChunk: handleAudioChunk,
     onError: (msg, type) => {
         showToast(msg, type || 'error');
@@ -77,28 +234,181 @@ function App() {
         }
     },
     chunkInterval: CHUNK_INTERVAL,
-    enableSystemAudio
+    overlapMs: CHUNK_OVERLAP,
+    vad: VAD_OPTIONS,
+    enableSystemAudio,
+    micDeviceId,
+    gains: audioGains
+  });
+
+  // Device labels are hidden until microphone access is granted, which happens on the first recording
+  useEffect(() => {
+    if (recordingState === RecordingState.RECORDING) refreshDevices();
+  }, [recordingState, refreshDevices]);
+
+  // Imported recordings are shown (and cited) as elapsed time rather than wall-clock time
+  const elapsedFrom = activeSession?.audioSource === 'file' ? activeSession.startedAt : undefined;
+  const citationIndex = useMemo(() => buildCitationIndex(transcriptChunks, elapsedFrom), [transcriptChunks, elapsedFrom]);
+  const [transcriptFocus, setTranscriptFocus] = useState<{ chunkId: string } | null>(null);
+  const [sidePanelTab, setSidePanelTab] = useState<SidePanelTab>('chat');
+  const chunkLabels = useMemo(
+    () => new Map(transcriptChunks.map(chunk => [chunk.id, formatCitationLabel(chunk.timestamp, elapsedFrom)])),
+    [transcriptChunks, elapsedFrom]
+  );
+  const speakerNames = useMemo(
+    () => [...new Set(listSpeakerLabels(transcriptChunks).map(label => resolveSpeaker(speakerRegistry, label)))],
+    [transcriptChunks, speakerRegistry]
+  );
+  // Recomputed as chunks arrive, so it follows the meeting live
+  const speakingStats = useMemo(
+    () => computeSpeakingStats(transcriptChunks, speakerRegistry, { maxChunkMs: VAD_OPTIONS.maxSegmentMs, endedAt: activeSession?.endedAt }),
+    [transcriptChunks, speakerRegistry, activeSession?.endedAt]
+  );
+  const recapData: RecapData = useMemo(() => ({
+    title: activeSession?.title ?? 'Meeting',
+    startedAt: activeSession?.startedAt ?? Date.now(),
+    analysis: analysisResult,
+    actionItems,
+    decisionLog,
+    registry: speakerRegistry
+  }), [activeSession, analysisResult, actionItems, decisionLog, speakerRegistry]);
+  const openActionItemCount = actionItems.filter(item => !item.done && !item.dismissed).length;
+  const openQuestionCount = openQuestions(decisionLog).length;
+  const sidePanelTabs: PanelTab<SidePanelTab>[] = [
+    {
+      id: 'chat',
+      label: 'Ask the Meeting',
+      icon: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-emerald-400"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>
+    },
+    {
+      id: 'tasks',
+      label: 'Action Items',
+      count: openActionItemCount,
+      icon: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-emerald-400"><polyline points="9 11 12 14 22 4"/><path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"/></svg>
+    },
+    {
+      id: 'decisions',
+      label: 'Decisions & Questions',
+      count: openQuestionCount,
+      icon: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-emerald-400"><circle cx="12" cy="12" r="10"/><path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3"/><line x1="12" x2="12.01" y1="17" y2="17"/></svg>
+    },
+    {
+      id: 'participation',
+      label: 'Participation',
+      icon: <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-emerald-400"><line x1="18" x2="18" y1="20" y2="10"/><line x1="12" x2="12" y1="20" y2="4"/><line x1="6" x2="6" y1="20" y2="14"/></svg>
+    }
+  ];
+
+  const { messages: chatMessages, isStreaming: isChatStreaming, sendMessage: sendChatMessage, stop: stopChat, reset: resetChat } = useMeetingChat({
+    ask: askAboutTranscript,
+    getContext: () => buildChatContext(transcriptChunks, speakerRegistry, analysisResult, elapsedFrom),
+    onError: (message) => showToast(message, 'error')
+  });
+
+  const transcriptEditor = useTranscriptEditor({
+    chunks: transcriptChunks,
+    setChunks: setTranscriptChunks,
+    onEdited: () => setActiveSession(prev => prev && { ...prev, transcriptEditedAt: Date.now() })
   });
 
+  const { translatingChunkId } = useChunkTranslation({
+    chunks: transcriptChunks,
+    setChunks: setTranscriptChunks,
+    targetLanguage,
+    translate: translateText,
+    onError: (message) => showToast(message, 'error')
+  });
+
+  // Manual corrections, a different preset or output language invalidate the analysis, and the rolling offsets along with it
+  const analysisStaleNotice = !latestAnalysis ? null
+    : (activeSession?.transcriptEditedAt ?? 0) > latestAnalysis.createdAt ? "The transcript was edited since this analysis."
+    : (latestAnalysis.presetId ?? DEFAULT_PRESET_ID) !== activePreset.id
+      ? `This analysis used the ${findPreset(analysisPresets, latestAnalysis.presetId).name} preset.`
+    : (latestAnalysis.outputLanguage ?? '') !== targetLanguage
+      ? `This analysis is in ${latestAnalysis.outputLanguage ? languageName(latestAnalysis.outputLanguage) : 'the spoken language'}.`
+      : null;
+
   // Effect to trigger analysis when transcript grows sufficiently
   useEffect(() => {
     const currentLength = fullTranscript.length;
     
-    // Simple debounce/threshold logic
-    if (currentLength - lastAnalyzedLength > ANALYSIS_TRIGGER_LENGTH && !isAnalyzing) {
+    // Simple debounce/threshold logic; imports run their own full analysis at the end
+    if (currentLength - lastAnalyzedLength > ANALYSIS_TRIGGER_LENGTH && !isAnalyzing && !importProgress && !awaitingFinalAnalysis) {
       triggerAnalysis();
     }
-  }, [fullTranscript, isAnalyzing, lastAnalyzedLength]);
+  }, [fullTranscript, isAnalyzing, lastAnalyzedLength, importProgress, awaitingFinalAnalysis]);
+
+  // Final full pass after stopping. The timer restarts whenever a chunk is still in flight, since the
+  // recorder flushes its last segment shortly after stop.
+  useEffect(() => {
+    if (!awaitingFinalAnalysis || isAnalyzing) return;
+    if (pendingChunks.some(chunk => chunk.status !== 'failed')) return;
+    const timer = setTimeout(() => {
+      setAwaitingFinalAnalysis(false);
+      triggerAnalysis({ final: true });
+      handleDetectChapters();
+    }, FINAL_ANALYSIS_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [awaitingFinalAnalysis, isAnalyzing, pendingChunks, fullTranscript]);
+
+  // Autosave the active session whenever its transcript or analysis changes. A new session isn't
+  // saved until it has a transcript, but a saved one is, even once every chunk is deleted.
+  useEffect(() => {
+    if (!activeSession) return;
+    if (transcriptChunks.length === 0 && !sessionsRef.current.some(session => session.id === activeSession.id)) return;
+    upsertSession({ ...activeSession, chunks: transcriptChunks, analyses: analysisVersions, speakers: speakerRegistry, actionItems, decisionLog, analysisPresetId, targetLanguage: targetLanguage || undefined, chapters });
+  }, [activeSession, transcriptChunks, analysisVersions, speakerRegistry, actionItems, decisionLog, analysisPresetId, targetLanguage, chapters]);
+
+  // Stores a new analysis version and folds its action items, decisions and questions into the tracked lists
+  const recordAnalysis = (result: AnalysisResult, version: Omit<AnalysisVersion, 'result' | 'createdAt'>) => {
+    setAnalysisVersions(prev => [...prev, { ...version, result, createdAt: Date.now() }]);
+    setActionItems(prev => mergeActionItems(prev, result.actionItems, transcriptChunksRef.current, speakerRegistryRef.current));
+    setDecisionLog(prev => mergeDecisionLog(prev, result, transcriptChunksRef.current, speakerRegistryRef.current));
+  };
 
-  const triggerAnalysis = async () => {
+  // After the final pass, points at the questions nobody answered
+  const announceOpenQuestions = (result: AnalysisResult) => {
+    const open = openQuestions(mergeDecisionLog(decisionLogRef.current, result, transcriptChunksRef.current, speakerRegistryRef.current));
+    if (open.length === 0) return;
+    setSidePanelTab('decisions');
+    showToast(`${open.length} ${open.length === 1 ? 'question is' : 'questions are'} still open. See Decisions & Questions for the report.`, 'info');
+  };
+
+  /**
+   * Live updates are rolling: only the chunks the latest analysis hasn't read are sent, together with
+   * that analysis and its digest, so long meetings stay fast and within context limits. Chunks are
+   * tracked by id rather than by text offset, since seam merges trim earlier chunks and retried chunks
+   * land before later ones. Final passes (on stop), passes after transcript edits or a preset change,
+   * and analyses saved before chunk tracking re-read the whole transcript.
+   */
+  const triggerAnalysis = async ({ final = false }: { final?: boolean } = {}) => {
     if (isAnalyzing || !fullTranscript.trim()) return;
+
+    // Measured from the latest stored analysis rather than the last attempt, so failed calls don't lose text
+    const latest = analysisVersions[analysisVersions.length - 1];
+    const isRolling = !final && !!latest?.analyzedChunkIds && !analysisStaleNotice;
+    const analyzedIds = new Set(isRolling ? latest.analyzedChunkIds : []);
+    const text = isRolling ? buildFullTranscript(transcriptChunks.filter(chunk => !analyzedIds.has(chunk.id))) : fullTranscript;
+    if (!text.trim()) return;
+    const analyzedChunkIds = transcriptChunks.map(chunk => chunk.id);
     
+    const epoch = sessionEpochRef.current;
+    const preset = activePreset;
+    const outputLanguage = targetLanguage || undefined;
     setIsAnalyzing(true);
     setLastAnalyzedLength(fullTranscript.length); 
 
     try {
-      const result = await analyzeTranscript(fullTranscript);
-      setAnalysisResult(result);
+      // Analyze with real names so action items are attributed to people, not "Speaker N"
+      const result = await analyzeTranscript(
+        applySpeakerNames(text, speakerRegistry),
+        isRolling ? { previous: latest.result, preset, outputLanguage } : { final, preset, outputLanguage }
+      );
+      // Keep the previous analysis if the model found nothing meaningful yet
+      if (result && epoch === sessionEpochRef.current) {
+        recordAnalysis(result, { transcriptLength: fullTranscript.length, analyzedChunkIds, presetId: preset.id, outputLanguage });
+        if (final) announceOpenQuestions(result);
+      }
     } catch (error: any) {
       showToast(error.message, 'error');
     } finally {
@@ -106,22 +416,389 @@ function App() {
     }
   };
 
+  /**
+   * Splits the transcript into chapters, replacing any detected before. Reads the latest chunks so it can
+   * run right after an import or final analysis.
+   */
+  const handleDetectChapters = async () => {
+    const chunks = [...transcriptChunksRef.current].sort((a, b) => a.timestamp - b.timestamp);
+    if (isDetectingChapters || chunks.length === 0) return;
+
+    const epoch = sessionEpochRef.current;
+    setIsDetectingChapters(true);
+    try {
+      const drafts = await detectChapters(chunks.map(chunk => applySpeakerNames(chunk.text, speakerRegistryRef.current)));
+      if (epoch === sessionEpochRef.current) setChapters(buildChapters(drafts, chunks));
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setIsDetectingChapters(false);
+    }
+  };
+
+  const isSessionActive = recordingState === RecordingState.RECORDING || recordingState === RecordingState.PAUSED;
+
   const handleToggleRecording = () => {
-    if (recordingState === RecordingState.RECORDING) {
+    if (isSessionActive) {
       stopRecording();
-      triggerAnalysis();
+      setActiveSession(prev => prev && { ...prev, endedAt: Date.now() });
+      setAwaitingFinalAnalysis(true);
     } else {
+      // Recording again after reopening a session continues that session
+      setAwaitingFinalAnalysis(false);
+      setActiveSession(prev => prev ?? createSessionMeta(enableSystemAudio ? 'system-and-mic' : 'mic-only'));
+      recordingEpochRef.current = sessionEpochRef.current;
       startRecording();
     }
   };
 
-  const handleClear = () => {
-    if (recordingState === RecordingState.RECORDING) stopRecording();
+  const handleTogglePause = () => {
+    if (recordingState === RecordingState.PAUSED) {
+      resumeRecording();
+      showToast("Recording resumed.", 'info');
+    } else if (recordingState === RecordingState.RECORDING) {
+      pauseRecording();
+      showToast("Recording paused. Screen share stays connected.", 'info');
+    }
+  };
+
+  const resetWorkspace = () => {
+    if (isSessionActive) stopRecording();
+    sessionEpochRef.current += 1;
+    resetChunkQueue();
+    // A new session with the local provider replays the scripted meeting from the start
+    resetLocalScript();
+    resetChat();
+    transcriptEditor.resetHistory();
+    setAwaitingFinalAnalysis(false);
+    setImportProgress(null);
+    setActiveSession(null);
     setTranscriptChunks([]);
-    setFullTranscript("");
-    setAnalysisResult("");
+    setAnalysisVersions([]);
+    setSpeakerRegistry(emptySpeakerRegistry());
+    setActionItems([]);
+    setDecisionLog([]);
+    setChapters([]);
     setLastAnalyzedLength(0);
-    showToast("Transcript cleared.", 'info');
+  };
+
+  const handleClear = () => {
+    const hadTranscript = transcriptChunks.length > 0;
+    resetWorkspace();
+    showToast(hadTranscript ? "Transcript cleared. The session is still saved in your library." : "Transcript cleared.", 'info');
+  };
+
+  /**
+   * Decodes a pre-recorded file, transcribes it segment by segment with offset timestamps,
+   * then runs a final full-recording analysis into a fresh session.
+   */
+  const handleImportFile = async (file: File) => {
+    if (importProgress) return;
+    if (isSessionActive) {
+      showToast("Stop recording before importing a file.", 'info');
+      return;
+    }
+    if (isTranscriptJsonFile(file)) {
+      handleImportTranscriptJson(file);
+      return;
+    }
+    if (!isSupportedImportFile(file)) {
+      showToast("Unsupported file type. Use mp3, wav, m4a, webm or mp4.", 'error');
+      return;
+    }
+
+    resetWorkspace();
+    const epoch = sessionEpochRef.current;
+    const preset = activePreset;
+    const outputLanguage = targetLanguage || undefined;
+    const session = createSessionMeta('file', file.name.replace(/\.[^.]+$/, ''));
+    setActiveSession(session);
+    importCancelledRef.current = false;
+
+    const progress: ImportProgressState = { fileName: file.name, stage: 'decoding', completed: 0, total: 0, failed: 0 };
+    setImportProgress(progress);
+
+    let transcript = "";
+    const importedChunkIds: string[] = [];
+    try {
+      const samples = await decodeAudioFile(file);
+      const segments = splitIntoSegments(samples, CHUNK_INTERVAL);
+      const durationMs = segments.reduce((sum, segment) => sum + segment.durationMs, 0);
+      setActiveSession(prev => prev && { ...prev, endedAt: session.startedAt + durationMs });
+      progress.stage = 'transcribing';
+      progress.total = segments.length;
+      setImportProgress({ ...progress });
+
+      for (let i = 0; i < segments.length; i++) {
+        if (importCancelledRef.current || epoch !== sessionEpochRef.current) break;
+        const segment = segments[i];
+        try {
+          const text = await withRetry(() => transcribeAudio(encodeWav(segment.samples)), {
+            shouldContinue: () => epoch === sessionEpochRef.current && !importCancelledRef.current
+          });
+          if (epoch !== sessionEpochRef.current) break;
+          if (text) {
+            const chunk: TranscriptChunk = {
+              id: `${session.id}-${i}`,
+              text,
+              timestamp: session.startedAt + segment.startMs,
+              isFinal: true
+            };
+            // The original file is kept as the session's recording; chunks play from their offset into it.
+            // Stored with the first chunk, since a session without a transcript is never saved.
+            if (importedChunkIds.length === 0) addAudioSegment(`${session.id}-recording`, file, session.startedAt, session.id);
+            transcript += "\n" + text;
+            importedChunkIds.push(chunk.id);
+            setTranscriptChunks(prev => [...prev, chunk]);
+          }
+        } catch (error: any) {
+          console.warn("Import segment failed:", error);
+          progress.failed += 1;
+          // Auth problems will fail every segment, so stop early
+          if (String(error).includes("API Key")) throw error;
+        }
+        progress.completed = i + 1;
+        setImportProgress({ ...progress });
+      }
+
+      if (epoch !== sessionEpochRef.current) return;
+      if (!transcript.trim()) {
+        showToast(importCancelledRef.current ? "Import cancelled." : "No speech was detected in this file.", 'info');
+        return;
+      }
+
+      progress.stage = 'analyzing';
+      setImportProgress({ ...progress });
+      setIsAnalyzing(true);
+      setLastAnalyzedLength(transcript.length);
+      try {
+        const result = await analyzeTranscript(applySpeakerNames(transcript, speakerRegistryRef.current), { final: true, preset, outputLanguage });
+        if (result && epoch === sessionEpochRef.current) {
+          recordAnalysis(result, { transcriptLength: transcript.length, analyzedChunkIds: importedChunkIds, presetId: preset.id, outputLanguage });
+        }
+      } finally {
+        setIsAnalyzing(false);
+      }
+      if (epoch === sessionEpochRef.current) await handleDetectChapters();
+
+      if (progress.failed > 0) {
+        showToast(`Imported with ${progress.failed} of ${progress.total} segments failing to transcribe.`, 'info');
+      } else {
+        showToast(importCancelledRef.current ? "Import cancelled. Partial transcript analyzed." : "Import complete.", 'success');
+      }
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      if (epoch === sessionEpochRef.current) setImportProgress(null);
+    }
+  };
+
+  const handleImportTranscriptJson = async (file: File) => {
+    try {
+      const session = parseTranscriptJson(await file.text());
+      // Don't overwrite the original if it's still in the library
+      const imported = sessions.some(s => s.id === session.id) ? { ...session, id: Date.now().toString() } : session;
+      loadIntoWorkspace(imported);
+      showToast(`Imported "${imported.title}".`, 'success');
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const handleExportTranscript = (format: TranscriptExportFormat) => {
+    const meta = activeSession ?? createSessionMeta(enableSystemAudio ? 'system-and-mic' : 'mic-only');
+    const session: Session = { ...meta, chunks: transcriptChunks, analyses: analysisVersions, speakers: speakerRegistry, actionItems, decisionLog, analysisPresetId, targetLanguage: targetLanguage || undefined, chapters };
+    const { extension, mimeType } = TRANSCRIPT_EXPORT_FORMATS.find(f => f.format === format)!;
+    downloadFile(exportTranscript(session, format), `${slugify(session.title)}-${fileTimestamp()}.${extension}`, mimeType);
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (file) handleImportFile(file);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files') || isSessionActive || importProgress) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleImportFile(file);
+  };
+
+  const handleNewSession = () => {
+    resetWorkspace();
+    setIsLibraryOpen(false);
+  };
+
+  // Replaces the workspace with a saved (or imported) session
+  const loadIntoWorkspace = (session: Session) => {
+    if (isSessionActive) stopRecording();
+    sessionEpochRef.current += 1;
+    resetChunkQueue();
+    resetChat();
+    transcriptEditor.resetHistory();
+    setAwaitingFinalAnalysis(false);
+    setImportProgress(null);
+
+    const { chunks, analyses, speakers, actionItems: savedActionItems, decisionLog: savedDecisionLog, analysisPresetId: savedPresetId, targetLanguage: savedTargetLanguage, chapters: savedChapters, ...meta } = session;
+    const transcript = buildFullTranscript(chunks);
+    setActiveSession(meta);
+    setTranscriptChunks(chunks);
+    setAnalysisVersions(analyses);
+    setSpeakerRegistry(speakers ?? emptySpeakerRegistry());
+    setActionItems(savedActionItems ?? []);
+    setDecisionLog(savedDecisionLog ?? []);
+    setAnalysisPresetId(savedPresetId ?? analyses[analyses.length - 1]?.presetId ?? DEFAULT_PRESET_ID);
+    setTargetLanguage(savedTargetLanguage ?? '');
+    setChapters(savedChapters ?? []);
+    // Treat the restored transcript as analyzed so reopening doesn't immediately spend quota
+    setLastAnalyzedLength(transcript.length);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    if (id === activeSession?.id) {
+      setIsLibraryOpen(false);
+      return;
+    }
+    const session = await loadSession(id);
+    if (!session) return;
+
+    loadIntoWorkspace(session);
+    setIsLibraryOpen(false);
+    showToast(`Opened "${session.title}".`, 'info');
+  };
+
+  // Opens the result's session if needed, then scrolls its transcript to the matching chunk
+  const handleSelectSearchResult = async (document: SearchDocument) => {
+    setIsSearchOpen(false);
+    if (document.sessionId !== activeSession?.id) {
+      const session = await loadSession(document.sessionId);
+      if (!session) return;
+      loadIntoWorkspace(session);
+    }
+    if (document.chunkId) setTranscriptFocus({ chunkId: document.chunkId });
+  };
+
+  const handleRenameSession = (id: string, title: string) => {
+    if (id === activeSession?.id) {
+      // The autosave effect persists the new title along with the transcript
+      setActiveSession(prev => prev && { ...prev, title });
+    } else {
+      renameSession(id, title);
+    }
+  };
+
+  const handleDeleteSession = (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session || !window.confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    if (id === activeSession?.id) resetWorkspace();
+    removeSession(id);
+    showToast("Session deleted.", 'info');
+  };
+
+  const handleRenameSpeaker = (label: string, name: string) => {
+    setSpeakerRegistry(prev => renameSpeaker(prev, label, name));
+  };
+
+  const handleMergeSpeaker = (label: string, target: string) => {
+    setSpeakerRegistry(prev => mergeSpeakers(prev, label, target));
+  };
+
+  const handleUnmergeSpeaker = (label: string) => {
+    setSpeakerRegistry(prev => unmergeSpeaker(prev, label));
+  };
+
+  const handleToggleActionItem = (id: string) => {
+    setActionItems(prev => prev.map(item => item.id === id ? { ...item, done: !item.done } : item));
+  };
+
+  const handleUpdateActionItem = (id: string, changes: Partial<ActionItem>) => {
+    setActionItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  // Dismissed rather than removed, so the next analysis doesn't bring the task back
+  const handleDeleteActionItem = (id: string) => {
+    setActionItems(prev => prev.map(item => item.id === id ? { ...item, dismissed: true } : item));
+  };
+
+  const handleAddActionItem = (input: string) => {
+    const createdAt = Date.now();
+    const { owner, text } = parseOwner(input, speakerRegistry);
+    const due = parseDueDate(text, createdAt);
+    setActionItems(prev => [...prev, { id: `${createdAt}-manual`, text, owner, dueDate: due?.date, dueText: due?.phrase, done: false, createdAt }]);
+  };
+
+  const handleExportActionItems = (format: ActionItemExportFormat) => {
+    if (format.startsWith('ics') && countCalendarEntries(actionItems) === 0) {
+      showToast("No open action items have a due date to put in a calendar.", 'info');
+      return;
+    }
+    const { extension, mimeType } = ACTION_ITEM_EXPORT_FORMATS.find(f => f.format === format)!;
+    const title = activeSession?.title ?? 'Meeting';
+    const content = exportActionItems(actionItems, format, {
+      registry: speakerRegistry,
+      meetingTitle: title,
+      meetingStartedAt: activeSession?.startedAt ?? Date.now()
+    });
+    downloadFile(content, `${slugify(title)}-tasks-${fileTimestamp()}.${extension}`, mimeType);
+  };
+
+  const handleToggleQuestionResolved = (id: string) => {
+    setDecisionLog(prev => prev.map(entry => entry.id === id ? { ...entry, resolved: !entry.resolved } : entry));
+  };
+
+  // Dismissed rather than removed, like tasks
+  const handleDeleteDecisionLogEntry = (id: string) => {
+    setDecisionLog(prev => prev.map(entry => entry.id === id ? { ...entry, dismissed: true } : entry));
+  };
+
+  const handleDownloadOpenQuestionsReport = () => {
+    const title = activeSession?.title ?? 'Meeting';
+    const report = buildOpenQuestionsReport(decisionLog, {
+      registry: speakerRegistry,
+      meetingTitle: title,
+      meetingStartedAt: activeSession?.startedAt ?? Date.now(),
+      formatTime: timestamp => formatCitationLabel(timestamp, elapsedFrom)
+    });
+    downloadFile(report, `${slugify(title)}-still-open-${fileTimestamp()}.md`, 'text/markdown');
+  };
+
+  const handleSaveSettings = (settings: ProviderSettings) => {
+    applyProviderSettings(settings);
+    setProviderSettings(settings);
+    setIsSettingsOpen(false);
+    showToast("Settings saved.", 'success');
+  };
+
+  const handlePresetChange = (presetId: string) => {
+    setAnalysisPresetId(presetId);
+    saveDefaultPresetId(presetId);
+  };
+
+  const handleTargetLanguageChange = (code: string) => {
+    setTargetLanguage(code);
+    saveTargetLanguage(code);
+  };
+
+  const handleSavePresets = (presets: AnalysisPreset[]) => {
+    saveCustomPresets(presets);
+    setCustomPresets(presets);
+    setIsPresetEditorOpen(false);
+    showToast("Presets saved.", 'success');
+  };
+
+  const handleSaveGlossary = (entries: GlossaryEntry[]) => {
+    applyGlossary(entries);
+    setGlossary(entries);
+    setIsGlossaryOpen(false);
+    showToast("Glossary saved. It applies to new transcription and analysis.", 'success');
   };
 
   const toggleAudioSource = () => {
@@ -133,8 +810,28 @@ function App() {
       });
   };
 
+  const handleInputSilence = (source: AudioSourceKind) => {
+    showToast(source === 'mic'
+      ? "No sound from the microphone for 30 seconds. Check that it's unmuted and the right device is selected."
+      : "No system audio for 30 seconds. Check that the shared tab or window is playing sound.", 'info');
+  };
+
   return (
-    <div className="min-h-screen bg-slate-900 text-slate-200 flex flex-col overflow-hidden font-sans">
+    <div
+      className="min-h-screen bg-slate-900 text-slate-200 flex flex-col overflow-hidden font-sans"
+      onDragOver={handleDragOver}
+      onDragLeave={e => { if (e.currentTarget === e.target) setIsDraggingFile(false); }}
+      onDrop={handleDrop}
+    >
+      {/* File Drop Overlay */}
+      {isDraggingFile && (
+        <div className="fixed inset-0 z-50 bg-slate-950/80 border-4 border-dashed border-blue-500/60 flex flex-col items-center justify-center gap-3 pointer-events-none">
+          <svg xmlns="http://www.w3.org/2000/svg" width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className="text-blue-400"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" x2="12" y1="3" y2="15"/></svg>
+          <p className="text-lg font-medium text-blue-200">Drop a recording to transcribe it</p>
+          <p className="text-xs text-slate-400">mp3, wav, m4a, webm or mp4</p>
+        </div>
+      )}
+
       {/* Toast Notification */}
       {toast && (
         <Toast 
@@ -144,9 +841,65 @@ function App() {
         />
       )}
 
+      <SessionSidebar
+        isOpen={isLibraryOpen}
+        sessions={sessions}
+        activeSessionId={activeSession?.id ?? null}
+        isLoading={isLibraryLoading}
+        onClose={() => setIsLibraryOpen(false)}
+        onOpen={handleOpenSession}
+        onRename={handleRenameSession}
+        onDelete={handleDeleteSession}
+        onNew={handleNewSession}
+      />
+
+      <SearchPanel
+        isOpen={isSearchOpen}
+        sessions={sessions}
+        onClose={() => setIsSearchOpen(false)}
+        onSelect={handleSelectSearchResult}
+      />
+
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        settings={providerSettings}
+        onClose={() => setIsSettingsOpen(false)}
+        onSave={handleSaveSettings}
+      />
+
+      <GlossaryPanel
+        isOpen={isGlossaryOpen}
+        entries={glossary}
+        onClose={() => setIsGlossaryOpen(false)}
+        onSave={handleSaveGlossary}
+        onNotify={showToast}
+      />
+
+      <PresetEditor
+        isOpen={isPresetEditorOpen}
+        customPresets={customPresets}
+        initialPresetId={activePreset.id}
+        onClose={() => setIsPresetEditorOpen(false)}
+        onSave={handleSavePresets}
+      />
+
+      <RecapComposer
+        isOpen={isRecapOpen}
+        data={recapData}
+        onClose={() => setIsRecapOpen(false)}
+        onNotify={showToast}
+      />
+
       {/* Header */}
       <header className="h-16 border-b border-slate-700 bg-slate-900/80 backdrop-blur-md flex items-center justify-between px-6 z-20 shrink-0">
         <div className="flex items-center gap-3">
+          <button
+            onClick={() => setIsLibraryOpen(true)}
+            className="p-2 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
+            title="Session Library"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="4" x2="20" y1="6" y2="6"/><line x1="4" x2="20" y1="12" y2="12"/><line x1="4" x2="20" y1="18" y2="18"/></svg>
+          </button>
           <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center shadow-lg shadow-purple-900/20">
             <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" x2="12" y1="19" y2="22"/></svg>
           </div>
@@ -160,6 +913,11 @@ function App() {
         </div>
 
         <div className="flex items-center gap-4">
+           {activeSession && (
+             <span className="hidden sm:block text-sm text-slate-400 truncate max-w-[240px]" title={activeSession.title}>
+               {activeSession.title}
+             </span>
+           )}
            {recordingState === RecordingState.RECORDING && (
              <div className="flex items-center gap-2 px-3 py-1 bg-red-500/10 border border-red-500/20 rounded-full animate-in fade-in zoom-in duration-300">
                <span className="relative flex h-2 w-2">
@@ -171,25 +929,151 @@ function App() {
                </span>
              </div>
            )}
+           {recordingState === RecordingState.PAUSED && (
+             <div className="flex items-center gap-2 px-3 py-1 bg-amber-500/10 border border-amber-500/20 rounded-full animate-in fade-in zoom-in duration-300">
+               <span className="relative inline-flex rounded-full h-2 w-2 bg-amber-400"></span>
+               <span className="text-xs font-medium text-amber-400">
+                 Paused
+               </span>
+             </div>
+           )}
+           <button
+             onClick={() => setIsSearchOpen(true)}
+             className="p-2 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
+             title="Search All Meetings"
+           >
+             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"/><path d="m21 21-4.3-4.3"/></svg>
+           </button>
+           <button
+             onClick={() => setIsGlossaryOpen(true)}
+             className="p-2 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
+             title={`Glossary (${glossary.length} ${glossary.length === 1 ? 'term' : 'terms'})`}
+           >
+             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 19.5v-15A2.5 2.5 0 0 1 6.5 2H20v20H6.5a2.5 2.5 0 0 1 0-5H20"/><path d="M8 7h6"/><path d="M8 11h8"/></svg>
+           </button>
+           <button
+             onClick={() => setIsSettingsOpen(true)}
+             className="p-2 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
+             title={`Settings (${providerSettings.transcriptionProvider} / ${providerSettings.analysisProvider})`}
+           >
+             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="3"/><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z"/></svg>
+           </button>
         </div>
       </header>
 
+      {importProgress && (
+        <ImportProgress progress={importProgress} onCancel={() => { importCancelledRef.current = true; }} />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 flex flex-col md:flex-row gap-6 p-6 overflow-hidden max-w-7xl mx-auto w-full">
         {/* Left Column: Transcript */}
         <div className="flex-1 flex flex-col min-h-[300px] h-full overflow-hidden">
           <TranscriptView 
             chunks={transcriptChunks} 
+            speakerRegistry={speakerRegistry}
+            onRenameSpeaker={handleRenameSpeaker}
+            onMergeSpeaker={handleMergeSpeaker}
+            onUnmergeSpeaker={handleUnmergeSpeaker}
+            pendingChunks={pendingChunks}
+            onRetryChunk={retryChunk}
+            onExport={handleExportTranscript}
             isProcessing={recordingState === RecordingState.RECORDING} 
+            elapsedFrom={elapsedFrom}
+            focusRequest={transcriptFocus}
+            targetLanguage={targetLanguage}
+            onTargetLanguageChange={handleTargetLanguageChange}
+            translatingChunkId={translatingChunkId}
+            chapters={chapters}
+            onDetectChapters={handleDetectChapters}
+            isDetectingChapters={isDetectingChapters}
+            playback={{
+              playingChunkId: sessionAudio.playingChunkId,
+              canPlay: sessionAudio.hasAudio,
+              onToggle: sessionAudio.togglePlayback,
+              onDownload: sessionAudio.hasRecording && !isSessionActive
+                ? () => sessionAudio.downloadRecording(activeSession?.title ?? 'recording')
+                : undefined,
+              isPreparingDownload: sessionAudio.isPreparingDownload
+            }}
+            editing={{
+              onEdit: transcriptEditor.editChunk,
+              onSplit: transcriptEditor.splitChunk,
+              onMergeWithNext: transcriptEditor.mergeWithNext,
+              onDelete: transcriptEditor.deleteChunk,
+              onUndo: transcriptEditor.undo,
+              onRedo: transcriptEditor.redo,
+              canUndo: transcriptEditor.canUndo,
+              canRedo: transcriptEditor.canRedo
+            }}
           />
         </div>
 
-        {/* Right Column: Analysis */}
-        <div className="flex-1 flex flex-col min-h-[300px] h-full overflow-hidden">
-          <AnalysisView 
-            analysisMarkdown={analysisResult} 
-            isAnalyzing={isAnalyzing} 
-          />
+        {/* Right Column: Analysis above the meeting Q&A */}
+        <div className="flex-1 flex flex-col gap-6 min-h-[300px] h-full overflow-hidden">
+          <div className="flex-[3] min-h-0">
+            <AnalysisView 
+              versions={analysisVersions} 
+              isAnalyzing={isAnalyzing} 
+              onComposeRecap={() => setIsRecapOpen(true)}
+              staleNotice={analysisStaleNotice}
+              onReanalyze={() => triggerAnalysis()}
+              presets={analysisPresets}
+              presetId={activePreset.id}
+              onPresetChange={handlePresetChange}
+              onManagePresets={() => setIsPresetEditorOpen(true)}
+              speakingStats={speakingStats}
+            />
+          </div>
+          <div className="flex-[2] min-h-0">
+            <PanelTabs
+              tabs={sidePanelTabs}
+              activeTab={sidePanelTab}
+              onSelect={tab => setSidePanelTab(tab)}
+            >
+              {sidePanelTab === 'chat' ? (
+                <ChatPanel
+                  messages={chatMessages}
+                  isStreaming={isChatStreaming}
+                  onSend={sendChatMessage}
+                  onStop={stopChat}
+                  citationIndex={citationIndex}
+                  onCitationClick={chunkId => setTranscriptFocus({ chunkId })}
+                  disabled={!fullTranscript.trim()}
+                />
+              ) : sidePanelTab === 'tasks' ? (
+                <ActionItemsPanel
+                  items={actionItems}
+                  registry={speakerRegistry}
+                  ownerOptions={speakerNames}
+                  sourceLabels={chunkLabels}
+                  onToggle={handleToggleActionItem}
+                  onUpdate={handleUpdateActionItem}
+                  onDelete={handleDeleteActionItem}
+                  onAdd={handleAddActionItem}
+                  onSourceClick={chunkId => setTranscriptFocus({ chunkId })}
+                  onExport={handleExportActionItems}
+                />
+              ) : sidePanelTab === 'decisions' ? (
+                <DecisionLogPanel
+                  entries={decisionLog}
+                  registry={speakerRegistry}
+                  sourceLabels={chunkLabels}
+                  onToggleResolved={handleToggleQuestionResolved}
+                  onDelete={handleDeleteDecisionLogEntry}
+                  onSourceClick={chunkId => setTranscriptFocus({ chunkId })}
+                  onDownloadReport={handleDownloadOpenQuestionsReport}
+                />
+              ) : (
+                <ParticipationPanel
+                  stats={speakingStats}
+                  isLive={isSessionActive}
+                  formatTime={timestamp => formatCitationLabel(timestamp, elapsedFrom)}
+                  onTurnClick={chunkId => setTranscriptFocus({ chunkId })}
+                />
+              )}
+            </PanelTabs>
+          </div>
         </div>
       </main>
 
@@ -210,6 +1094,22 @@ function App() {
              )}
           </button>
 
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${IMPORT_ACCEPT},.json,application/json`}
+            className="hidden"
+            onChange={handleFileInputChange}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSessionActive || !!importProgress}
+            className="p-3 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Import Recording or Transcript JSON"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" x2="12" y1="3" y2="15"/></svg>
+          </button>
+
           <button
             onClick={handleClear}
             className="p-3 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-full transition-colors tooltip-trigger"
@@ -218,18 +1118,32 @@ function App() {
             <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
           </button>
 
+          <button
+            onClick={handleTogglePause}
+            disabled={!isSessionActive}
+            className={`p-3 rounded-full transition-colors border disabled:opacity-50 disabled:cursor-not-allowed ${recordingState === RecordingState.PAUSED ? 'text-amber-400 border-amber-500/30 bg-amber-500/10 hover:bg-amber-500/20' : 'text-slate-400 border-slate-600 bg-slate-800 hover:text-slate-200'}`}
+            title={recordingState === RecordingState.PAUSED ? "Resume Recording" : "Pause Recording"}
+          >
+            {recordingState === RecordingState.PAUSED ? (
+              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="5 3 19 12 5 21 5 3"/></svg>
+            ) : (
+              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="6" y="4" width="4" height="16"/><rect x="14" y="4" width="4" height="16"/></svg>
+            )}
+          </button>
+
           <button
             onClick={handleToggleRecording}
+            disabled={!!importProgress}
             className={`
-              group relative flex items-center justify-center w-16 h-16 rounded-full shadow-xl transition-all duration-300
-              ${recordingState === RecordingState.RECORDING 
+              group relative flex items-center justify-center w-16 h-16 rounded-full shadow-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed
+              ${isSessionActive 
                 ? 'bg-red-500 hover:bg-red-600 shadow-red-500/30' 
                 : 'bg-blue-600 hover:bg-blue-500 shadow-blue-500/30'}
             `}
             title={recordingState === RecordingState.IDLE ? "Start Meeting Capture" : "Stop Recording"}
           >
-            {recordingState === RecordingState.RECORDING ? (
-              <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="6" y="4" width="4" height="16"/><rect x="14" y="4" width="4" height="16"/></svg>
+            {isSessionActive ? (
+              <svg xmlns="http://www.w3.org/2000/svg" width="28" height="28" viewBox="0 0 24 24" fill="white" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="5" y="5" width="14" height="14" rx="2"/></svg>
             ) : (
                <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="ml-1"><polygon points="5 3 19 12 5 21 5 3"/></svg>
             )}
@@ -245,6 +1159,21 @@ function App() {
           </button>
         </div>
         
+        {/* Input Levels */}
+        <div className="hidden lg:block absolute left-8">
+          <AudioInputControls
+            devices={micDevices}
+            micDeviceId={micDeviceId}
+            onMicDeviceChange={selectMic}
+            gains={audioGains}
+            onGainChange={setAudioGain}
+            readLevels={readLevels}
+            isActive={recordingState === RecordingState.RECORDING}
+            enableSystemAudio={enableSystemAudio}
+            onSilence={handleInputSilence}
+          />
+        </div>
+
         {/* Helper Text */}
         <div className="hidden md:block absolute right-8 text-xs text-slate-500 max-w-[200px] text-right">
             {enableSystemAudio ? "Captures Meeting Audio & Mic" : "Captures Microphone Only"}
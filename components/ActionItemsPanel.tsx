@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { ActionItem, SpeakerRegistry } from '../types';
+import { resolveOwner, sortActionItems } from '../services/actionItems';
+import { ActionItemExportFormat, ACTION_ITEM_EXPORT_FORMATS } from '../services/actionItemExport';
+import { ExportMenu } from './ExportMenu';
+
+interface ActionItemsPanelProps {
+  items: ActionItem[];
+  registry: SpeakerRegistry;
+  ownerOptions: string[]; // Suggested owners (speaker names) for the owner field
+  sourceLabels: Map<string, string>; // Chunk id -> timestamp label
+  onToggle: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<ActionItem>) => void;
+  onDelete: (id: string) => void;
+  onAdd: (text: string) => void;
+  onSourceClick: (chunkId: string) => void;
+  onExport: (format: ActionItemExportFormat) => void;
+}
+
+const formatDueDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const isOverdue = (date: string) => {
+  const today = new Date();
+  const todayIso = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+  return date < todayIso;
+};
+
+const ActionItemRow: React.FC<{
+  item: ActionItem;
+  registry: SpeakerRegistry;
+  sourceLabel?: string;
+  onToggle: () => void;
+  onUpdate: (changes: Partial<ActionItem>) => void;
+  onDelete: () => void;
+  onSourceClick: () => void;
+}> = ({ item, registry, sourceLabel, onToggle, onUpdate, onDelete, onSourceClick }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState(item.text);
+  const [owner, setOwner] = useState(item.owner ? resolveOwner(item.owner, registry) : '');
+  const [dueDate, setDueDate] = useState(item.dueDate ?? '');
+
+  const startEditing = () => {
+    setText(item.text);
+    setOwner(item.owner ? resolveOwner(item.owner, registry) : '');
+    setDueDate(item.dueDate ?? '');
+    setIsEditing(true);
+  };
+
+  const save = () => {
+    if (!text.trim()) return;
+    onUpdate({
+      text: text.trim(),
+      owner: owner.trim() || undefined,
+      dueDate: dueDate || undefined,
+      // A hand-picked date no longer comes from the spoken phrase
+      dueText: dueDate === item.dueDate ? item.dueText : undefined
+    });
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <li className="rounded-md border border-slate-600 bg-slate-900 p-2 space-y-2">
+        <input
+          autoFocus
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') save();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+          className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-100 focus:outline-none focus:border-blue-500"
+        />
+        <div className="flex gap-2">
+          <input
+            value={owner}
+            onChange={e => setOwner(e.target.value)}
+            list="action-item-owners"
+            placeholder="Owner"
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+          />
+          <input
+            type="date"
+            value={dueDate}
+            onChange={e => setDueDate(e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setIsEditing(false)} className="px-2 py-1 text-xs text-slate-400 hover:text-slate-200">
+            Cancel
+          </button>
+          <button onClick={save} className="px-2 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors">
+            Save
+          </button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className="group flex items-start gap-2 rounded-md px-2 py-1.5 hover:bg-slate-800/60">
+      <input
+        type="checkbox"
+        checked={item.done}
+        onChange={onToggle}
+        className="mt-1 accent-emerald-500 shrink-0 cursor-pointer"
+        title={item.done ? "Mark as not done" : "Mark as done"}
+      />
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm leading-snug ${item.done ? 'text-slate-500 line-through' : 'text-slate-200'}`}>{item.text}</p>
+        <div className="flex flex-wrap items-center gap-2 mt-1 text-[11px] text-slate-400">
+          {item.owner && (
+            <span className="px-1.5 rounded-full border border-cyan-400/30 bg-cyan-400/10 text-cyan-300">
+              {resolveOwner(item.owner, registry)}
+            </span>
+          )}
+          {item.dueDate && (
+            <span
+              className={!item.done && isOverdue(item.dueDate) ? 'text-red-400' : 'text-amber-300'}
+              title={item.dueText ? `From "${item.dueText}"` : undefined}
+            >
+              Due {formatDueDate(item.dueDate)}
+            </span>
+          )}
+          {item.sourceChunkId && sourceLabel && (
+            <button onClick={onSourceClick} className="font-mono text-blue-400 hover:text-blue-300" title="Show in transcript">
+              {sourceLabel}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+        <button onClick={startEditing} className="p-1 text-slate-400 hover:text-slate-200" title="Edit task">
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/></svg>
+        </button>
+        <button onClick={onDelete} className="p-1 text-slate-400 hover:text-red-400" title="Remove task">
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
+  items,
+  registry,
+  ownerOptions,
+  sourceLabels,
+  onToggle,
+  onUpdate,
+  onDelete,
+  onAdd,
+  onSourceClick,
+  onExport
+}) => {
+  const [draft, setDraft] = useState('');
+  const visible = sortActionItems(items);
+  const openCount = visible.filter(item => !item.done).length;
+
+  const add = () => {
+    if (!draft.trim()) return;
+    onAdd(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {visible.length > 0 && (
+        <div className="px-4 py-2 border-b border-slate-700 flex items-center justify-between text-xs text-slate-400">
+          <span>{openCount} open · {visible.length - openCount} done</span>
+          <ExportMenu
+            options={ACTION_ITEM_EXPORT_FORMATS.map(({ format, label }) => ({ id: format, label }))}
+            onSelect={onExport}
+            title="Export Tasks"
+          />
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2 bg-slate-900/30">
+        {visible.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-slate-500 text-sm text-center px-4">
+            Action items from the analysis are collected here, with owners and due dates.
+          </div>
+        ) : (
+          <ul className="space-y-1">
+            {visible.map(item => (
+              <ActionItemRow
+                key={item.id}
+                item={item}
+                registry={registry}
+                sourceLabel={item.sourceChunkId ? sourceLabels.get(item.sourceChunkId) : undefined}
+                onToggle={() => onToggle(item.id)}
+                onUpdate={changes => onUpdate(item.id, changes)}
+                onDelete={() => onDelete(item.id)}
+                onSourceClick={() => item.sourceChunkId && onSourceClick(item.sourceChunkId)}
+              />
+            ))}
+          </ul>
+        )}
+        <datalist id="action-item-owners">
+          {ownerOptions.map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+
+      <form
+        onSubmit={e => { e.preventDefault(); add(); }}
+        className="p-3 border-t border-slate-700 bg-slate-900/50 flex gap-2"
+      >
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder="Add a task..."
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="px-3 py-2 text-xs font-medium text-white bg-blue-600 hover:bg-blue-500 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -1,24 +1,109 @@
-import React from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { AnalysisPreset, AnalysisVersion } from '../types';
+import { analysisToMarkdown } from '../services/analysisFormat';
+import { ChangeKind, DiffItem, AnalysisListField, QuestionDiffItem, diffAnalyses } from '../services/analysisDiff';
+import { downloadFile, fileTimestamp } from '../services/download';
+import { SpeakingStats, speakingStatsToMarkdown } from '../services/speakingStats';
 
 interface AnalysisViewProps {
-  analysisMarkdown: string;
+  versions: AnalysisVersion[]; // Oldest first; the latest is shown unless an earlier one is picked
   isAnalyzing: boolean;
+  onComposeRecap?: () => void;
+  staleNotice?: string | null; // Why the latest analysis no longer matches the transcript or preset
+  onReanalyze?: () => void;
+  presets?: AnalysisPreset[];
+  presetId?: string;
+  onPresetChange?: (presetId: string) => void;
+  onManagePresets?: () => void;
+  speakingStats?: SpeakingStats | null; // Added to the downloaded summary
 }
 
-export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysisMarkdown, isAnalyzing }) => {
+const CHANGE_STYLES: Record<ChangeKind, { item: string; marker?: string }> = {
+  added: { item: 'text-emerald-200 bg-emerald-500/10 rounded', marker: '+' },
+  removed: { item: 'text-red-300/80 line-through decoration-red-400/60', marker: '−' },
+  unchanged: { item: 'text-slate-300' }
+};
+
+const markdownComponents: Components = {
+  ul: ({node, ...props}) => <ul className="space-y-1 mb-4" {...props} />,
+  li: ({node, ...props}) => <li className="text-slate-300 flex items-start" {...props}><span className="mr-2 text-purple-400">•</span><span className="flex-1">{props.children}</span></li>,
+  strong: ({node, ...props}) => <strong className="text-white font-semibold" {...props} />,
+  p: ({node, ...props}) => <p className="text-slate-300 mb-4 last:mb-0 leading-relaxed" {...props} />
+};
+
+const AnalysisPanel: React.FC<{ title: string; accent: string; changed?: boolean; children: React.ReactNode }> = ({ title, accent, changed, children }) => (
+  <section className="rounded-lg border border-slate-700 bg-slate-800/40 p-4">
+    <h3 className={`text-xs uppercase font-bold tracking-wider mb-3 flex items-center gap-2 ${accent}`}>
+      {title}
+      {changed && <span className="normal-case font-medium tracking-normal text-[10px] px-1.5 rounded bg-emerald-500/10 text-emerald-300">updated</span>}
+    </h3>
+    {children}
+  </section>
+);
+
+const BulletList: React.FC<{ items: DiffItem[]; marker?: string }> = ({ items, marker = '•' }) => (
+  <ul className="space-y-1.5">
+    {items.map((item, idx) => {
+      const style = CHANGE_STYLES[item.change];
+      return (
+        <li key={idx} className={`text-sm flex items-start leading-relaxed ${style.item}`}>
+          <span className={`mr-2 shrink-0 ${item.change === 'unchanged' ? 'text-purple-400' : ''}`}>{style.marker ?? marker}</span>
+          <span className="flex-1">{item.text}</span>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+const Prose: React.FC<{ text: string }> = ({ text }) => (
+  <div className="prose prose-invert prose-sm max-w-none">
+    <ReactMarkdown components={markdownComponents}>{text}</ReactMarkdown>
+  </div>
+);
+
+const formatVersionTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const AnalysisView: React.FC<AnalysisViewProps> = ({
+  versions,
+  isAnalyzing,
+  onComposeRecap,
+  staleNotice,
+  onReanalyze,
+  presets,
+  presetId,
+  onPresetChange,
+  onManagePresets,
+  speakingStats
+}) => {
+  // null follows the latest version as new analyses arrive
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+
+  // A different session was loaded
+  useEffect(() => {
+    setSelectedIndex(null);
+  }, [versions[0]]);
+
+  const latestIndex = versions.length - 1;
+  const index = selectedIndex === null ? latestIndex : Math.min(selectedIndex, latestIndex);
+  const version = versions[index];
+  const analysis = version?.result ?? null;
+  // The first version has nothing to compare against, so it shows no change markers
+  const previous = versions[index - 1];
+  const diff = showChanges && analysis && previous ? diffAnalyses(previous.result, analysis) : null;
+  // Diff mode also lists items dropped since the previous version
+  const listItems = (field: AnalysisListField): DiffItem[] =>
+    diff ? diff.lists[field] : (analysis?.[field] ?? []).map(text => ({ text, change: 'unchanged' as const }));
+  const questionItems: QuestionDiffItem[] = diff
+    ? diff.questions
+    : (analysis?.questions ?? []).map(question => ({ ...question, change: 'unchanged' as const, answerChanged: false }));
 
   const handleDownload = () => {
-    if (!analysisMarkdown) return;
-    const blob = new Blob([analysisMarkdown], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `meeting-summary-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    if (!analysis) return;
+    const participation = speakingStats ? `\n${speakingStatsToMarkdown(speakingStats)}` : '';
+    downloadFile(analysisToMarkdown(analysis) + participation, `meeting-summary-${fileTimestamp()}.md`, 'text/markdown');
   };
 
   return (
@@ -30,6 +115,26 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysisMarkdown, is
         </h2>
         
         <div className="flex items-center gap-3">
+            {presets && onPresetChange && (
+              <div className="flex items-center">
+                <select
+                  value={presetId}
+                  onChange={e => onPresetChange(e.target.value)}
+                  className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-purple-500"
+                  title="Analysis preset for this meeting type"
+                >
+                  {presets.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </select>
+                {onManagePresets && (
+                  <button onClick={onManagePresets} className="p-1 text-slate-400 hover:text-slate-200" title="Edit Presets">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/></svg>
+                  </button>
+                )}
+              </div>
+            )}
+
             {isAnalyzing && (
               <span className="text-xs text-purple-400 flex items-center gap-1 animate-pulse">
                 <svg className="animate-spin h-3 w-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -40,7 +145,18 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysisMarkdown, is
               </span>
             )}
             
-            {analysisMarkdown && (
+            {analysis && onComposeRecap && (
+                <button
+                    onClick={onComposeRecap}
+                    className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-purple-900/50 hover:text-purple-200 border border-slate-700 hover:border-purple-500/50 rounded-md transition-all shadow-sm"
+                    title="Draft a Recap Email"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="2" y="4" width="20" height="16" rx="2"/><path d="m22 7-8.97 5.7a1.94 1.94 0 0 1-2.06 0L2 7"/></svg>
+                    Recap
+                </button>
+            )}
+
+            {analysis && (
                 <button 
                     onClick={handleDownload}
                     className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-purple-900/50 hover:text-purple-200 border border-slate-700 hover:border-purple-500/50 rounded-md transition-all shadow-sm"
@@ -53,8 +169,57 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysisMarkdown, is
         </div>
       </div>
 
+      {versions.length > 1 && version && (
+        <div className="px-4 py-2 border-b border-slate-700 bg-slate-900/40 flex items-center gap-3 text-xs text-slate-400">
+          <input
+            type="range"
+            min={0}
+            max={latestIndex}
+            value={index}
+            onChange={e => {
+              const next = Number(e.target.value);
+              setSelectedIndex(next === latestIndex ? null : next);
+            }}
+            className="flex-1 min-w-0 accent-purple-500"
+            title="Analysis history"
+          />
+          <span className="shrink-0 font-mono" title={`${version.transcriptLength} characters of transcript`}>
+            v{index + 1}/{versions.length} · {formatVersionTime(version.createdAt)}
+          </span>
+          <label className="shrink-0 flex items-center gap-1 cursor-pointer select-none">
+            <input type="checkbox" checked={showChanges} disabled={!previous} onChange={e => setShowChanges(e.target.checked)} className="accent-purple-500" />
+            Changes
+          </label>
+          {diff && (
+            <span className="shrink-0 font-mono">
+              <span className="text-emerald-400">+{diff.addedCount}</span> <span className="text-red-400">−{diff.removedCount}</span>
+            </span>
+          )}
+          {index !== latestIndex && (
+            <button onClick={() => setSelectedIndex(null)} className="shrink-0 text-purple-300 hover:text-purple-200">
+              Latest
+            </button>
+          )}
+        </div>
+      )}
+
+      {staleNotice && analysis && (
+        <div className="px-4 py-2 border-b border-amber-500/30 bg-amber-500/10 flex items-center gap-3 text-xs text-amber-200">
+          <span className="flex-1">{staleNotice}</span>
+          {onReanalyze && (
+            <button
+              onClick={onReanalyze}
+              disabled={isAnalyzing}
+              className="shrink-0 px-2 py-1 font-medium text-amber-100 border border-amber-400/40 hover:bg-amber-500/20 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Re-analyze
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto p-6 bg-slate-900/30">
-        {!analysisMarkdown ? (
+        {!analysis ? (
           <div className="h-full flex flex-col items-center justify-center text-slate-500">
             <svg xmlns="http://www.w3.org/2000/svg" width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round" className="mb-4 opacity-50"><path d="M2 12h10"/><path d="M9 4v16"/><path d="m3 9 3 3-3 3"/><path d="M14 8V6c0-1.1.9-2 2-2h4c1.1 0 2 .9 2 2v12c0 1.1-.9 2-2 2h-4c-1.1 0-2-.9-2-2v-2"/><path d="M20 12h2"/><path d="m17 9 3 3-3 3"/><path d="M14 12h-2"/></svg>
             <p className="text-center max-w-sm">
@@ -62,18 +227,95 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysisMarkdown, is
             </p>
           </div>
         ) : (
-          <div className="prose prose-invert prose-sm max-w-none">
-            <ReactMarkdown
-               components={{
-                 h3: ({node, ...props}) => <h3 className="text-purple-300 font-bold mt-6 mb-3 border-b border-purple-500/30 pb-1" {...props} />,
-                 ul: ({node, ...props}) => <ul className="space-y-1 mb-4" {...props} />,
-                 li: ({node, ...props}) => <li className="text-slate-300 flex items-start" {...props}><span className="mr-2 text-purple-400">•</span><span className="flex-1">{props.children}</span></li>,
-                 strong: ({node, ...props}) => <strong className="text-white font-semibold" {...props} />,
-                 p: ({node, ...props}) => <p className="text-slate-300 mb-4 leading-relaxed" {...props} />
-               }}
-            >
-              {analysisMarkdown}
-            </ReactMarkdown>
+          <div className="space-y-4">
+            {analysis.summary && (
+              <AnalysisPanel title="Summary" accent="text-purple-300" changed={diff?.summaryChanged}>
+                <Prose text={analysis.summary} />
+              </AnalysisPanel>
+            )}
+
+            {listItems('keyPoints').length > 0 && (
+              <AnalysisPanel title={analysis.decisions ? "Key Points" : "Key Points / Decisions"} accent="text-blue-300">
+                <BulletList items={listItems('keyPoints')} />
+              </AnalysisPanel>
+            )}
+
+            {listItems('decisions').length > 0 && (
+              <AnalysisPanel title="Decisions" accent="text-blue-300">
+                <BulletList items={listItems('decisions')} marker="◆" />
+              </AnalysisPanel>
+            )}
+
+            {questionItems.length > 0 && (
+              <AnalysisPanel title="Questions" accent="text-amber-300">
+                <ul className="space-y-1.5">
+                  {questionItems.map((question, idx) => {
+                    const style = CHANGE_STYLES[question.change];
+                    return (
+                      <li key={idx} className={`text-sm leading-relaxed ${style.item}`}>
+                        <span className={`mr-2 ${style.marker ? '' : question.answer ? 'text-emerald-400' : 'text-amber-400'}`}>{style.marker ?? (question.answer ? '✓' : '?')}</span>
+                        {question.text}
+                        {question.answer && (
+                          <span className={`block pl-5 text-xs ${question.answerChanged ? 'text-emerald-200 bg-emerald-500/10 rounded' : 'text-slate-400'}`}>{question.answer}</span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </AnalysisPanel>
+            )}
+
+            {listItems('actionItems').length > 0 && (
+              <AnalysisPanel title="Action Items" accent="text-emerald-300">
+                <BulletList items={listItems('actionItems')} marker="☐" />
+              </AnalysisPanel>
+            )}
+
+            {listItems('topics').length > 0 && (
+              <AnalysisPanel title="Important Names / Topics" accent="text-amber-300">
+                <div className="flex flex-wrap gap-2">
+                  {listItems('topics').map((topic, idx) => (
+                    <span
+                      key={idx}
+                      className={`text-xs px-2 py-1 rounded-full border ${
+                        topic.change === 'added' ? 'border-emerald-400/40 bg-emerald-400/10 text-emerald-200'
+                        : topic.change === 'removed' ? 'border-red-400/30 text-red-300/80 line-through'
+                        : 'border-amber-400/30 bg-amber-400/10 text-amber-200'
+                      }`}
+                    >
+                      {topic.text}
+                    </span>
+                  ))}
+                </div>
+              </AnalysisPanel>
+            )}
+
+            {analysis.projectInsights && (
+              <AnalysisPanel title="Project / Technical Insights" accent="text-cyan-300" changed={diff?.insightsChanged}>
+                <Prose text={analysis.projectInsights} />
+              </AnalysisPanel>
+            )}
+
+            {analysis.polishedIdea && (
+              <AnalysisPanel title="Polished Project Idea" accent="text-pink-300">
+                <Prose text={analysis.polishedIdea} />
+              </AnalysisPanel>
+            )}
+
+            {analysis.sections?.map(section => (
+              <AnalysisPanel
+                key={section.id}
+                title={section.title}
+                accent="text-cyan-300"
+                changed={diff?.changedSections.has(section.id)}
+              >
+                {section.items ? (
+                  <BulletList items={section.items.map(text => ({ text, change: 'unchanged' as const }))} />
+                ) : (
+                  <Prose text={section.text ?? ''} />
+                )}
+              </AnalysisPanel>
+            ))}
           </div>
         )}
       </div>
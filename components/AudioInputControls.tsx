@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AudioGains, AudioLevels, AudioSourceKind } from '../hooks/useAudioRecorder';
+
+interface AudioInputControlsProps {
+  devices: MediaDeviceInfo[];
+  micDeviceId: string;
+  onMicDeviceChange: (deviceId: string) => void;
+  gains: AudioGains;
+  onGainChange: (source: AudioSourceKind, value: number) => void;
+  readLevels: () => AudioLevels;
+  isActive: boolean; // Recording and not paused
+  enableSystemAudio: boolean;
+  onSilence: (source: AudioSourceKind) => void;
+}
+
+const METER_INTERVAL_MS = 66; // ~15 fps is plenty for a meter
+const SILENCE_LEVEL = 0.001; // Effectively digital silence; room noise stays above this
+const SILENCE_WARNING_MS = 30000;
+
+const SOURCE_LABELS: Record<AudioSourceKind, string> = { mic: 'Mic', system: 'System' };
+
+// Maps RMS onto a -60..0 dBFS scale, which matches how loud things sound better than linear RMS
+const toMeterFraction = (level: number) => level <= 0 ? 0 : Math.max(0, Math.min(1, 1 + (20 * Math.log10(level)) / 60));
+
+const EMPTY_LEVELS: AudioLevels = { mic: null, system: null };
+
+export const AudioInputControls: React.FC<AudioInputControlsProps> = ({
+  devices, micDeviceId, onMicDeviceChange, gains, onGainChange, readLevels, isActive, enableSystemAudio, onSilence
+}) => {
+  const [levels, setLevels] = useState<AudioLevels>(EMPTY_LEVELS);
+  const [silent, setSilent] = useState<Record<AudioSourceKind, boolean>>({ mic: false, system: false });
+
+  const onSilenceRef = useRef(onSilence);
+  onSilenceRef.current = onSilence;
+
+  // Polls levels while recording; meters live in this component's state so the app doesn't re-render
+  useEffect(() => {
+    if (!isActive) {
+      setLevels(EMPTY_LEVELS);
+      setSilent({ mic: false, system: false });
+      return;
+    }
+
+    const lastSound: Record<AudioSourceKind, number> = { mic: performance.now(), system: performance.now() };
+    const warned: Record<AudioSourceKind, boolean> = { mic: false, system: false };
+    let lastUpdate = 0;
+    let frame = requestAnimationFrame(function tick(now) {
+      frame = requestAnimationFrame(tick);
+      if (now - lastUpdate < METER_INTERVAL_MS) return;
+      lastUpdate = now;
+
+      const next = readLevels();
+      setLevels(next);
+      (['mic', 'system'] as AudioSourceKind[]).forEach(source => {
+        const level = next[source];
+        if (level === null || level >= SILENCE_LEVEL) {
+          lastSound[source] = now;
+          if (warned[source]) {
+            warned[source] = false;
+            setSilent(prev => ({ ...prev, [source]: false }));
+          }
+        } else if (!warned[source] && now - lastSound[source] >= SILENCE_WARNING_MS) {
+          // Once per silent stretch
+          warned[source] = true;
+          setSilent(prev => ({ ...prev, [source]: true }));
+          onSilenceRef.current(source);
+        }
+      });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isActive, readLevels]);
+
+  const sources: AudioSourceKind[] = enableSystemAudio ? ['mic', 'system'] : ['mic'];
+
+  return (
+    <div className="w-64 space-y-1.5">
+      <select
+        value={micDeviceId}
+        onChange={e => onMicDeviceChange(e.target.value)}
+        disabled={isActive}
+        className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500 disabled:opacity-60"
+        title={isActive ? "Stop recording to change the microphone" : "Microphone"}
+      >
+        <option value="">Default microphone</option>
+        {devices.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${index + 1}`}</option>
+        ))}
+        {micDeviceId && !devices.some(device => device.deviceId === micDeviceId) && (
+          <option value={micDeviceId}>Unavailable microphone</option>
+        )}
+      </select>
+
+      {sources.map(source => {
+        const level = levels[source];
+        const fraction = level === null ? 0 : toMeterFraction(level);
+        return (
+          <div key={source} className="flex items-center gap-2">
+            <span className={`w-11 text-[11px] ${silent[source] ? 'text-amber-400' : 'text-slate-500'}`} title={silent[source] ? `No sound from ${SOURCE_LABELS[source].toLowerCase()} audio` : undefined}>
+              {SOURCE_LABELS[source]}{silent[source] && ' !'}
+            </span>
+            <div className="flex-1 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-[width] duration-75 ${fraction > 0.9 ? 'bg-red-500' : fraction > 0.7 ? 'bg-amber-400' : 'bg-emerald-500'}`}
+                style={{ width: `${fraction * 100}%` }}
+              />
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.05}
+              value={gains[source]}
+              onChange={e => onGainChange(source, Number(e.target.value))}
+              className="w-16 accent-blue-500"
+              title={`${SOURCE_LABELS[source]} gain: ${Math.round(gains[source] * 100)}%`}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
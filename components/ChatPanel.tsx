@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { Message } from '../types';
+import { CITATION_HREF_PREFIX, linkCitations } from '../services/meetingChat';
+
+interface ChatPanelProps {
+  messages: Message[];
+  isStreaming: boolean;
+  onSend: (text: string) => void;
+  onStop: () => void;
+  // Citation label -> chunk id, for the chunks currently in the transcript
+  citationIndex: Map<string, string>;
+  onCitationClick: (chunkId: string) => void;
+  disabled?: boolean;
+}
+
+const SUGGESTED_QUESTIONS = [
+  "What did we decide?",
+  "Who owns which tasks?",
+  "What questions are still open?"
+];
+
+const ChatAnswer: React.FC<{ text: string; citationIndex: Map<string, string>; onCitationClick: (chunkId: string) => void }> = ({
+  text,
+  citationIndex,
+  onCitationClick
+}) => {
+  const components: Components = {
+    p: ({node, ...props}) => <p className="mb-2 last:mb-0 leading-relaxed" {...props} />,
+    ul: ({node, ...props}) => <ul className="list-disc pl-4 space-y-1 mb-2 last:mb-0" {...props} />,
+    ol: ({node, ...props}) => <ol className="list-decimal pl-4 space-y-1 mb-2 last:mb-0" {...props} />,
+    strong: ({node, ...props}) => <strong className="text-white font-semibold" {...props} />,
+    a: ({node, href, children}) => {
+      if (!href?.startsWith(CITATION_HREF_PREFIX)) {
+        return <a href={href} target="_blank" rel="noreferrer" className="text-blue-400 underline">{children}</a>;
+      }
+      const chunkId = citationIndex.get(href.slice(CITATION_HREF_PREFIX.length));
+      // Citations to chunks that no longer exist (or were never there) stay visible but inert
+      return chunkId ? (
+        <button
+          onClick={() => onCitationClick(chunkId)}
+          className="inline-flex items-center px-1.5 mx-0.5 rounded text-[10px] font-mono text-blue-300 bg-blue-500/10 border border-blue-500/30 hover:bg-blue-500/20 transition-colors align-middle"
+          title="Show in transcript"
+        >
+          {children}
+        </button>
+      ) : (
+        <span className="inline-flex px-1.5 mx-0.5 rounded text-[10px] font-mono text-slate-500 border border-slate-700 align-middle">
+          {children}
+        </span>
+      );
+    }
+  };
+
+  return <ReactMarkdown components={components}>{linkCitations(text)}</ReactMarkdown>;
+};
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({
+  messages,
+  isStreaming,
+  onSend,
+  onStop,
+  citationIndex,
+  onCitationClick,
+  disabled = false
+}) => {
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const send = (text: string) => {
+    if (!text.trim() || isStreaming || disabled) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-slate-900/30">
+        {messages.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center gap-3 text-slate-500 text-sm">
+            <p className="text-center max-w-sm">
+              {disabled ? "Ask questions once there is some transcript." : "Ask anything about what was said. Answers cite the transcript."}
+            </p>
+            {!disabled && (
+              <div className="flex flex-wrap justify-center gap-2">
+                {SUGGESTED_QUESTIONS.map(question => (
+                  <button
+                    key={question}
+                    onClick={() => send(question)}
+                    className="text-xs px-2 py-1 rounded-full border border-slate-600 text-slate-300 hover:border-emerald-500/50 hover:text-emerald-200 transition-colors"
+                  >
+                    {question}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          messages.map((message, idx) => (
+            <div key={idx} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+                message.role === 'user'
+                  ? 'bg-blue-600/80 text-white'
+                  : 'bg-slate-800 border border-slate-700 text-slate-300'
+              }`}>
+                {message.role === 'user' ? (
+                  <p className="whitespace-pre-wrap">{message.text}</p>
+                ) : message.text ? (
+                  <ChatAnswer text={message.text} citationIndex={citationIndex} onCitationClick={onCitationClick} />
+                ) : (
+                  <span className="text-slate-500 italic animate-pulse">Thinking...</span>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form
+        onSubmit={e => { e.preventDefault(); send(draft); }}
+        className="p-3 border-t border-slate-700 bg-slate-900/50 flex gap-2"
+      >
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          disabled={disabled}
+          placeholder="e.g. Who owns the API migration?"
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+        />
+        {isStreaming ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="px-3 py-2 text-xs font-medium text-slate-200 bg-slate-700 hover:bg-slate-600 rounded-md transition-colors"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={disabled || !draft.trim()}
+            className="px-3 py-2 text-xs font-medium text-white bg-blue-600 hover:bg-blue-500 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Ask
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
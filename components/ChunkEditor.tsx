@@ -0,0 +1,58 @@
+import React, { useRef, useState } from 'react';
+
+interface ChunkEditorProps {
+  text: string;
+  onSave: (text: string) => void;
+  onSplit: (offset: number) => void;
+  onCancel: () => void;
+}
+
+export const ChunkEditor: React.FC<ChunkEditorProps> = ({ text, onSave, onSplit, onCancel }) => {
+  const [draft, setDraft] = useState(text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const hasChanges = draft !== text;
+
+  // Splitting works on the saved text, so it's only offered before other changes are made
+  const split = () => {
+    const offset = textareaRef.current?.selectionStart ?? 0;
+    onSplit(offset);
+  };
+
+  return (
+    <div className="space-y-2" onClick={e => e.stopPropagation()}>
+      <textarea
+        ref={textareaRef}
+        autoFocus
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) onSave(draft);
+          if (e.key === 'Escape') onCancel();
+        }}
+        rows={Math.min(10, Math.max(2, draft.split('\n').length + 1))}
+        className="w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-slate-100 leading-relaxed focus:outline-none focus:border-blue-500 resize-y"
+      />
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-slate-500 mr-auto">Keep "Speaker N:" at line starts · Ctrl+Enter to save</span>
+        <button
+          onClick={split}
+          disabled={hasChanges}
+          className="px-2 py-1 text-slate-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          title={hasChanges ? "Save or cancel your changes before splitting" : "Split into two chunks at the cursor"}
+        >
+          Split at cursor
+        </button>
+        <button onClick={onCancel} className="px-2 py-1 text-slate-400 hover:text-slate-200">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!hasChanges}
+          className="px-2 py-1 font-medium text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React from 'react';
+import { DecisionLogEntry, SpeakerRegistry } from '../types';
+import { resolveOwner } from '../services/actionItems';
+import { listDecisionLog } from '../services/decisionLog';
+
+interface DecisionLogPanelProps {
+  entries: DecisionLogEntry[];
+  registry: SpeakerRegistry;
+  sourceLabels: Map<string, string>; // Chunk id -> timestamp label
+  onToggleResolved: (id: string) => void;
+  onDelete: (id: string) => void;
+  onSourceClick: (chunkId: string) => void;
+  onDownloadReport: () => void;
+}
+
+const SourceLink: React.FC<{ chunkId?: string; sourceLabels: Map<string, string>; onClick: (chunkId: string) => void; title: string }> = ({ chunkId, sourceLabels, onClick, title }) => {
+  const label = chunkId ? sourceLabels.get(chunkId) : undefined;
+  if (!chunkId || !label) return null;
+  return (
+    <button onClick={() => onClick(chunkId)} className="font-mono text-blue-400 hover:text-blue-300" title={title}>
+      {label}
+    </button>
+  );
+};
+
+const EntryRow: React.FC<{
+  entry: DecisionLogEntry;
+  registry: SpeakerRegistry;
+  sourceLabels: Map<string, string>;
+  onToggleResolved?: () => void;
+  onDelete: () => void;
+  onSourceClick: (chunkId: string) => void;
+}> = ({ entry, registry, sourceLabels, onToggleResolved, onDelete, onSourceClick }) => (
+  <li className="group flex items-start gap-2 rounded-md px-2 py-1.5 hover:bg-slate-800/60">
+    {onToggleResolved ? (
+      <input
+        type="checkbox"
+        checked={entry.resolved}
+        onChange={onToggleResolved}
+        className="mt-1 accent-emerald-500 shrink-0 cursor-pointer"
+        title={entry.resolved ? "Reopen question" : "Mark as answered"}
+      />
+    ) : (
+      <span className="mt-0.5 shrink-0 text-blue-400">◆</span>
+    )}
+    <div className="flex-1 min-w-0">
+      <p className={`text-sm leading-snug ${entry.resolved ? 'text-slate-400' : 'text-slate-200'}`}>{entry.text}</p>
+      {entry.answer && <p className="text-xs text-slate-400 mt-0.5">↳ {entry.answer}</p>}
+      <div className="flex flex-wrap items-center gap-2 mt-1 text-[11px] text-slate-400">
+        {entry.speaker && (
+          <span className="px-1.5 rounded-full border border-cyan-400/30 bg-cyan-400/10 text-cyan-300">
+            {resolveOwner(entry.speaker, registry)}
+          </span>
+        )}
+        <SourceLink chunkId={entry.sourceChunkId} sourceLabels={sourceLabels} onClick={onSourceClick} title="Show in transcript" />
+        {entry.answerChunkId && entry.answerChunkId !== entry.sourceChunkId && (
+          <span className="flex items-center gap-1">
+            answered
+            <SourceLink chunkId={entry.answerChunkId} sourceLabels={sourceLabels} onClick={onSourceClick} title="Show the answer in transcript" />
+          </span>
+        )}
+      </div>
+    </div>
+    <button
+      onClick={onDelete}
+      className="p-1 text-slate-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+      title={entry.kind === 'decision' ? "Remove decision" : "Remove question"}
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
+    </button>
+  </li>
+);
+
+const Section: React.FC<{ title: string; count: number; accent: string; children: React.ReactNode }> = ({ title, count, accent, children }) => (
+  <section>
+    <h3 className={`px-2 pt-2 pb-1 text-[11px] uppercase font-bold tracking-wider ${accent}`}>
+      {title} <span className="font-medium text-slate-500">{count}</span>
+    </h3>
+    <ul className="space-y-1">{children}</ul>
+  </section>
+);
+
+/**
+ * Decisions and questions collected from the analyses. Open questions come first, since what's
+ * still unanswered at the end of a meeting is what needs following up.
+ */
+export const DecisionLogPanel: React.FC<DecisionLogPanelProps> = ({
+  entries,
+  registry,
+  sourceLabels,
+  onToggleResolved,
+  onDelete,
+  onSourceClick,
+  onDownloadReport
+}) => {
+  const decisions = listDecisionLog(entries, 'decision');
+  const questions = listDecisionLog(entries, 'question');
+  const open = questions.filter(entry => !entry.resolved);
+  const answered = questions.filter(entry => entry.resolved);
+
+  const row = (entry: DecisionLogEntry) => (
+    <EntryRow
+      key={entry.id}
+      entry={entry}
+      registry={registry}
+      sourceLabels={sourceLabels}
+      onToggleResolved={entry.kind === 'question' ? () => onToggleResolved(entry.id) : undefined}
+      onDelete={() => onDelete(entry.id)}
+      onSourceClick={onSourceClick}
+    />
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      {(decisions.length > 0 || questions.length > 0) && (
+        <div className="px-4 py-2 border-b border-slate-700 flex items-center justify-between text-xs text-slate-400">
+          <span>{decisions.length} {decisions.length === 1 ? 'decision' : 'decisions'} · {open.length} open {open.length === 1 ? 'question' : 'questions'}</span>
+          <button onClick={onDownloadReport} className="text-slate-400 hover:text-slate-200" title="Download the open questions and decisions as Markdown">
+            Still-open report
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2 bg-slate-900/30 space-y-2">
+        {decisions.length === 0 && questions.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-slate-500 text-sm text-center px-4">
+            Decisions and open questions from the analysis are collected here, with who said them and when.
+          </div>
+        ) : (
+          <>
+            {open.length > 0 && <Section title="Still open" count={open.length} accent="text-amber-300">{open.map(row)}</Section>}
+            {decisions.length > 0 && <Section title="Decisions" count={decisions.length} accent="text-blue-300">{decisions.map(row)}</Section>}
+            {answered.length > 0 && <Section title="Answered" count={answered.length} accent="text-emerald-300">{answered.map(row)}</Section>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface ExportMenuProps<T extends string> {
+  options: { id: T; label: string }[];
+  onSelect: (id: T) => void;
+  label?: string;
+  title?: string;
+}
+
+export const ExportMenu = <T extends string>({ options, onSelect, label = 'Export', title }: ExportMenuProps<T>) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-blue-900/50 hover:text-blue-200 border border-slate-700 hover:border-blue-500/50 rounded-md transition-all shadow-sm"
+        title={title}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" x2="12" y1="15" y2="3"/></svg>
+        {label}
+        <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="6 9 12 15 18 9"/></svg>
+      </button>
+
+      {isOpen && (
+        <ul className="absolute right-0 mt-1 w-56 z-30 rounded-md border border-slate-700 bg-slate-900 shadow-xl py-1 animate-in fade-in zoom-in duration-150">
+          {options.map(option => (
+            <li key={option.id}>
+              <button
+                onClick={() => { setIsOpen(false); onSelect(option.id); }}
+                className="w-full text-left px-3 py-1.5 text-sm text-slate-300 hover:bg-slate-800 hover:text-white transition-colors"
+              >
+                {option.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GlossaryEntry, GlossaryEntryKind } from '../types';
+import { createGlossaryEntry, glossaryToCsv, mergeGlossaries, parseGlossaryCsv } from '../services/glossary';
+import { downloadFile } from '../services/download';
+
+interface GlossaryPanelProps {
+  isOpen: boolean;
+  entries: GlossaryEntry[];
+  onClose: () => void;
+  onSave: (entries: GlossaryEntry[]) => void;
+  onNotify: (message: string, type: 'error' | 'success' | 'info') => void;
+}
+
+// Variants are edited as one comma-separated field, so they're only split on save
+interface DraftRow {
+  id: string;
+  term: string;
+  kind: GlossaryEntryKind;
+  variants: string;
+  note: string;
+}
+
+const toDraftRow = (entry: GlossaryEntry): DraftRow => ({
+  id: entry.id,
+  term: entry.term,
+  kind: entry.kind,
+  variants: entry.variants.join(', '),
+  note: entry.note ?? ''
+});
+
+const toEntries = (rows: DraftRow[]): GlossaryEntry[] => rows
+  .filter(row => row.term.trim())
+  .map(row => ({ ...createGlossaryEntry(row.term, row.kind, row.variants.split(','), row.note), id: row.id }));
+
+const inputClass = "w-full min-w-0 bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500";
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ isOpen, entries, onClose, onSave, onNotify }) => {
+  const [rows, setRows] = useState<DraftRow[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from the saved glossary each time the panel opens
+  useEffect(() => {
+    if (isOpen) setRows(entries.map(toDraftRow));
+  }, [isOpen, entries]);
+
+  if (!isOpen) return null;
+
+  const updateRow = (id: string, changes: Partial<DraftRow>) => {
+    setRows(prev => prev.map(row => row.id === id ? { ...row, ...changes } : row));
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, toDraftRow(createGlossaryEntry(''))]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseGlossaryCsv(await file.text());
+      setRows(prev => mergeGlossaries(toEntries(prev), imported).map(toDraftRow));
+      onNotify(`Imported ${imported.length} ${imported.length === 1 ? 'term' : 'terms'}. Save to apply.`, 'info');
+    } catch (error: any) {
+      onNotify(error.message || "Could not read the glossary file.", 'error');
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(glossaryToCsv(toEntries(rows)), 'glossary.csv', 'text/csv');
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl animate-in fade-in zoom-in duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-100">Glossary</h2>
+            <p className="text-xs text-slate-500">Product names, acronyms and people, with the spellings transcription should use.</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-200 rounded" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" x2="6" y1="6" y2="18"/><line x1="6" x2="18" y1="6" y2="18"/></svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2 overflow-y-auto">
+          {rows.length > 0 && (
+            <div className="grid grid-cols-[1fr_6rem_1.5fr_1fr_2rem] gap-2 text-[11px] font-medium uppercase tracking-wider text-slate-500">
+              <span>Term</span>
+              <span>Type</span>
+              <span title="Replaced with the term after transcription">Misheard as</span>
+              <span>Note</span>
+              <span />
+            </div>
+          )}
+          {rows.map(row => (
+            <div key={row.id} className="grid grid-cols-[1fr_6rem_1.5fr_1fr_2rem] gap-2 items-center">
+              <input
+                value={row.term}
+                onChange={e => updateRow(row.id, { term: e.target.value })}
+                placeholder="Kubernetes"
+                className={inputClass}
+              />
+              <select
+                value={row.kind}
+                onChange={e => updateRow(row.id, { kind: e.target.value as GlossaryEntryKind })}
+                className={inputClass}
+              >
+                <option value="term">Term</option>
+                <option value="person">Person</option>
+              </select>
+              <input
+                value={row.variants}
+                onChange={e => updateRow(row.id, { variants: e.target.value })}
+                placeholder="cooper netties, cube entities"
+                className={inputClass}
+              />
+              <input
+                value={row.note}
+                onChange={e => updateRow(row.id, { note: e.target.value })}
+                placeholder="Optional context"
+                className={inputClass}
+              />
+              <button
+                onClick={() => setRows(prev => prev.filter(other => other.id !== row.id))}
+                className="p-1 text-slate-500 hover:text-red-400"
+                title="Remove Term"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
+              </button>
+            </div>
+          ))}
+          {rows.length === 0 && (
+            <p className="py-6 text-center text-sm text-slate-500">No terms yet. Add them one by one or import a CSV shared by your team.</p>
+          )}
+          <button onClick={addRow} className="text-sm text-blue-400 hover:text-blue-300">
+            + Add term
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex items-center gap-2">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 text-sm text-slate-300 hover:text-white transition-colors"
+            title="CSV columns: term, kind (term/person), variants separated by semicolons, note"
+          >
+            Import CSV
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={rows.length === 0}
+            className="px-3 py-1.5 text-sm text-slate-300 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Export CSV
+          </button>
+          <div className="flex-1" />
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(toEntries(rows))}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 rounded-md transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+
+export interface ImportProgressState {
+  fileName: string;
+  stage: 'decoding' | 'transcribing' | 'analyzing';
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+interface ImportProgressProps {
+  progress: ImportProgressState;
+  onCancel: () => void;
+}
+
+const STAGE_LABELS: Record<ImportProgressState['stage'], string> = {
+  decoding: 'Decoding audio...',
+  transcribing: 'Transcribing',
+  analyzing: 'Running full recording analysis...',
+};
+
+export const ImportProgress: React.FC<ImportProgressProps> = ({ progress, onCancel }) => {
+  const percent = progress.stage === 'analyzing'
+    ? 100
+    : progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div className="max-w-7xl mx-auto w-full px-6 pt-4 shrink-0">
+      <div className="rounded-xl border border-blue-500/30 bg-blue-500/10 p-3 flex items-center gap-4">
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-blue-400 shrink-0"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" x2="12" y1="3" y2="15"/></svg>
+        <div className="flex-1 min-w-0">
+          <div className="flex justify-between text-xs mb-1.5 gap-4">
+            <span className="text-blue-200 font-medium truncate">{progress.fileName}</span>
+            <span className="text-blue-300 shrink-0">
+              {STAGE_LABELS[progress.stage]}
+              {progress.stage === 'transcribing' && ` ${progress.completed}/${progress.total}`}
+              {progress.failed > 0 && <span className="text-red-300"> · {progress.failed} failed</span>}
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+            <div
+              className={`h-full bg-blue-500 transition-all duration-300 ${progress.stage !== 'transcribing' ? 'animate-pulse' : ''}`}
+              style={{ width: `${progress.stage === 'decoding' ? 5 : percent}%` }}
+            />
+          </div>
+        </div>
+        {progress.stage !== 'analyzing' && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md transition-colors shrink-0"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+
+export interface PanelTab<T extends string> {
+  id: T;
+  label: string;
+  icon: React.ReactNode;
+  count?: number; // Shown as a small badge when greater than zero
+}
+
+interface PanelTabsProps<T extends string> {
+  tabs: PanelTab<T>[];
+  activeTab: T;
+  onSelect: (id: T) => void;
+  children: React.ReactNode; // Body of the active tab
+}
+
+/**
+ * Card with a tabbed header, for panels that share one slot of the layout.
+ */
+export const PanelTabs = <T extends string>({ tabs, activeTab, onSelect, children }: PanelTabsProps<T>) => (
+  <div className="flex flex-col h-full bg-slate-800/50 backdrop-blur-sm rounded-xl border border-slate-700 overflow-hidden shadow-lg">
+    <div className="px-2 border-b border-slate-700 bg-slate-900/50 flex items-center gap-1 overflow-x-auto">
+      {tabs.map(tab => (
+        <button
+          key={tab.id}
+          onClick={() => onSelect(tab.id)}
+          className={`flex items-center gap-2 px-3 py-3 text-sm font-semibold border-b-2 -mb-px transition-colors whitespace-nowrap ${
+            tab.id === activeTab
+              ? 'text-slate-100 border-blue-500'
+              : 'text-slate-400 border-transparent hover:text-slate-200'
+          }`}
+        >
+          {tab.icon}
+          {tab.label}
+          {!!tab.count && (
+            <span className="text-[10px] font-medium px-1.5 rounded-full bg-slate-700 text-slate-300">{tab.count}</span>
+          )}
+        </button>
+      ))}
+    </div>
+    <div className="flex-1 min-h-0 flex flex-col">
+      {children}
+    </div>
+  </div>
+);
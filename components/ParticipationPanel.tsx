@@ -0,0 +1,105 @@
+import React from 'react';
+import { SpeakingStats, formatDuration, INTERRUPTION_WINDOW_MS } from '../services/speakingStats';
+
+interface ParticipationPanelProps {
+  stats: SpeakingStats | null;
+  isLive: boolean;
+  formatTime: (timestamp: number) => string; // Timeline axis labels, as shown in the transcript
+  onTurnClick: (chunkId: string) => void;
+}
+
+const BAR_COLORS = ['bg-cyan-400', 'bg-purple-400', 'bg-emerald-400', 'bg-amber-400', 'bg-pink-400', 'bg-blue-400'];
+
+// Same hash TranscriptView uses for speaker badges, so a person keeps their color
+const barColor = (speaker: string) => {
+  let hash = 0;
+  for (let i = 0; i < speaker.length; i++) {
+    hash = speaker.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  return BAR_COLORS[Math.abs(hash) % BAR_COLORS.length];
+};
+
+const Stat: React.FC<{ label: string; value: React.ReactNode; title?: string }> = ({ label, value, title }) => (
+  <div title={title}>
+    <div className="text-[10px] uppercase tracking-wider text-slate-500">{label}</div>
+    <div className="text-xs font-mono text-slate-200">{value}</div>
+  </div>
+);
+
+/**
+ * Who spoke how much: talk share, words, turns, longest monologue and interruptions per speaker,
+ * and a timeline of turns across the meeting.
+ */
+export const ParticipationPanel: React.FC<ParticipationPanelProps> = ({ stats, isLive, formatTime, onTurnClick }) => {
+  if (!stats) {
+    return (
+      <div className="h-full flex items-center justify-center text-slate-500 text-sm text-center px-4 bg-slate-900/30">
+        Speaking time per person appears here once the transcript has speaker labels.
+      </div>
+    );
+  }
+
+  const span = Math.max(1, stats.endedAt - stats.startedAt);
+  const position = (timestamp: number) => ((timestamp - stats.startedAt) / span) * 100;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-2 border-b border-slate-700 flex items-center justify-between text-xs text-slate-400">
+        <span>{stats.speakers.length} {stats.speakers.length === 1 ? 'speaker' : 'speakers'} · {formatDuration(stats.totalTalkMs)} of talk</span>
+        {isLive && <span className="flex items-center gap-1.5 text-red-300"><span className="w-1.5 h-1.5 rounded-full bg-red-400 animate-pulse" />Live</span>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 bg-slate-900/30 space-y-5">
+        <ul className="space-y-3">
+          {stats.speakers.map(speaker => (
+            <li key={speaker.speaker} className="space-y-1.5">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-sm font-medium text-slate-200 truncate">{speaker.name}</span>
+                <span className="text-xs font-mono text-slate-400 shrink-0">{Math.round(speaker.share * 100)}% · {formatDuration(speaker.talkMs)}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                <div className={`h-full rounded-full ${barColor(speaker.speaker)}`} style={{ width: `${speaker.share * 100}%` }} />
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                <Stat label="Words" value={speaker.words} />
+                <Stat label="Turns" value={speaker.turns} />
+                <Stat label="Longest" value={formatDuration(speaker.longestMonologueMs)} title="Longest monologue" />
+                <Stat
+                  label="Interrupts"
+                  value={`${speaker.interruptions} / ${speaker.interrupted}`}
+                  title={`Cut someone off / was cut off: started mid-sentence, within ${INTERRUPTION_WINDOW_MS / 1000}s of the previous speaker`}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <section>
+          <h3 className="text-[11px] uppercase font-bold tracking-wider text-slate-400 mb-2">Timeline</h3>
+          <div className="space-y-1">
+            {stats.speakers.map(speaker => (
+              <div key={speaker.speaker} className="flex items-center gap-2">
+                <span className="w-20 shrink-0 truncate text-[11px] text-slate-400" title={speaker.name}>{speaker.name}</span>
+                <div className="relative flex-1 h-3 rounded bg-slate-800/80">
+                  {stats.turns.filter(turn => turn.speaker === speaker.speaker).map(turn => (
+                    <button
+                      key={`${turn.chunkId}-${turn.start}`}
+                      onClick={() => onTurnClick(turn.chunkId)}
+                      className={`absolute inset-y-0 rounded-sm hover:brightness-125 ${barColor(speaker.speaker)}`}
+                      style={{ left: `${position(turn.start)}%`, width: `max(2px, ${position(turn.end) - position(turn.start)}%)` }}
+                      title={`${speaker.name} · ${formatTime(turn.start)} · ${formatDuration(turn.end - turn.start)}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between pl-[5.5rem] mt-1 text-[10px] font-mono text-slate-500">
+            <span>{formatTime(stats.startedAt)}</span>
+            <span>{formatTime(stats.endedAt)}</span>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { AnalysisPreset, AnalysisSectionDefinition, AnalysisSectionFormat } from '../types';
+import { BUILT_IN_PRESETS, createCustomPreset, normalizePreset } from '../services/analysisPresets';
+
+interface PresetEditorProps {
+  isOpen: boolean;
+  customPresets: AnalysisPreset[];
+  initialPresetId?: string;
+  onClose: () => void;
+  onSave: (customPresets: AnalysisPreset[]) => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500 disabled:opacity-60";
+const labelClass = "block text-xs font-medium uppercase tracking-wider text-slate-400 mb-1.5";
+
+const emptySection = (): AnalysisSectionDefinition => ({ id: '', title: '', format: 'list', instructions: '' });
+
+export const PresetEditor: React.FC<PresetEditorProps> = ({ isOpen, customPresets, initialPresetId, onClose, onSave }) => {
+  const [drafts, setDrafts] = useState<AnalysisPreset[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(BUILT_IN_PRESETS[0].id);
+
+  // Start from the saved presets each time the editor opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setDrafts(customPresets);
+    setSelectedId(initialPresetId ?? BUILT_IN_PRESETS[0].id);
+  }, [isOpen, customPresets, initialPresetId]);
+
+  if (!isOpen) return null;
+
+  const selected = [...BUILT_IN_PRESETS, ...drafts].find(preset => preset.id === selectedId) ?? BUILT_IN_PRESETS[0];
+  const isReadOnly = !!selected.builtIn;
+
+  const update = (changes: Partial<AnalysisPreset>) => {
+    setDrafts(prev => prev.map(preset => preset.id === selected.id ? { ...preset, ...changes } : preset));
+  };
+
+  const updateSection = (index: number, changes: Partial<AnalysisSectionDefinition>) => {
+    update({ sections: selected.sections.map((section, i) => i === index ? { ...section, ...changes } : section) });
+  };
+
+  const addPreset = (from?: AnalysisPreset) => {
+    const preset = createCustomPreset(from);
+    setDrafts(prev => [...prev, preset]);
+    setSelectedId(preset.id);
+  };
+
+  const deleteSelected = () => {
+    setDrafts(prev => prev.filter(preset => preset.id !== selected.id));
+    setSelectedId(BUILT_IN_PRESETS[0].id);
+  };
+
+  const presetButton = (preset: AnalysisPreset) => (
+    <button
+      key={preset.id}
+      onClick={() => setSelectedId(preset.id)}
+      className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+        preset.id === selected.id ? 'bg-slate-700 text-slate-100' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+      }`}
+    >
+      {preset.name || 'Untitled preset'}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl animate-in fade-in zoom-in duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-100">Analysis Presets</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-200 rounded" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" x2="6" y1="6" y2="18"/><line x1="6" x2="18" y1="6" y2="18"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="w-48 shrink-0 border-r border-slate-700 p-2 space-y-1 overflow-y-auto">
+            <p className="px-3 pt-1 pb-1 text-[11px] uppercase tracking-wider text-slate-500">Built-in</p>
+            {BUILT_IN_PRESETS.map(presetButton)}
+            <p className="px-3 pt-3 pb-1 text-[11px] uppercase tracking-wider text-slate-500">Custom</p>
+            {drafts.map(presetButton)}
+            <button onClick={() => addPreset()} className="w-full text-left px-3 py-2 text-sm text-blue-400 hover:text-blue-300">
+              + New preset
+            </button>
+          </div>
+
+          <div className="flex-1 min-w-0 p-4 space-y-4 overflow-y-auto">
+            {isReadOnly && (
+              <div className="flex items-center justify-between gap-3 rounded-md border border-slate-700 bg-slate-800/50 px-3 py-2 text-xs text-slate-400">
+                Built-in presets can't be changed. Duplicate one to customize it.
+                <button onClick={() => addPreset(selected)} className="shrink-0 text-blue-400 hover:text-blue-300">
+                  Duplicate
+                </button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input value={selected.name} onChange={e => update({ name: e.target.value })} disabled={isReadOnly} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Description</label>
+                <input value={selected.description} onChange={e => update({ description: e.target.value })} disabled={isReadOnly} className={inputClass} />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Instructions</label>
+              <textarea
+                value={selected.instructions}
+                onChange={e => update({ instructions: e.target.value })}
+                disabled={isReadOnly}
+                rows={3}
+                placeholder="What kind of meeting this is and what the analysis should focus on."
+                className={`${inputClass} resize-y`}
+              />
+              <p className="mt-1 text-[11px] text-slate-500">Summary, key points, action items and topics are always included.</p>
+            </div>
+
+            <div>
+              <label className={labelClass}>Sections</label>
+              <div className="space-y-2">
+                {selected.sections.map((section, index) => (
+                  <div key={index} className="rounded-md border border-slate-700 p-2 space-y-2">
+                    <div className="flex gap-2">
+                      <input
+                        value={section.title}
+                        onChange={e => updateSection(index, { title: e.target.value })}
+                        disabled={isReadOnly}
+                        placeholder="Section title"
+                        className={inputClass}
+                      />
+                      <select
+                        value={section.format}
+                        onChange={e => updateSection(index, { format: e.target.value as AnalysisSectionFormat })}
+                        disabled={isReadOnly}
+                        className={`${inputClass} w-32`}
+                      >
+                        <option value="list">List</option>
+                        <option value="text">Paragraph</option>
+                      </select>
+                      {!isReadOnly && (
+                        <button
+                          onClick={() => update({ sections: selected.sections.filter((_, i) => i !== index) })}
+                          className="p-1 text-slate-500 hover:text-red-400"
+                          title="Remove Section"
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
+                        </button>
+                      )}
+                    </div>
+                    <input
+                      value={section.instructions}
+                      onChange={e => updateSection(index, { instructions: e.target.value })}
+                      disabled={isReadOnly}
+                      placeholder="What goes in this section"
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+                {!isReadOnly && (
+                  <button
+                    onClick={() => update({ sections: [...selected.sections, emptySection()] })}
+                    className="text-sm text-blue-400 hover:text-blue-300"
+                  >
+                    + Add section
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex items-center gap-2">
+          {!isReadOnly && (
+            <button onClick={deleteSelected} className="px-3 py-1.5 text-sm text-red-400 hover:text-red-300">
+              Delete preset
+            </button>
+          )}
+          <div className="flex-1" />
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(drafts.map(normalizePreset))}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 rounded-md transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  RecapData,
+  RECAP_PLACEHOLDERS,
+  DEFAULT_RECAP_TEMPLATE,
+  MAILTO_MAX_LENGTH,
+  loadRecapTemplate,
+  saveRecapTemplate,
+  renderRecap,
+  buildEml,
+  buildMailtoUrl
+} from '../services/recapEmail';
+import { downloadFile, slugify } from '../services/download';
+
+interface RecapComposerProps {
+  isOpen: boolean;
+  data: RecapData;
+  onClose: () => void;
+  onNotify: (message: string, type: 'error' | 'success' | 'info') => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500";
+const labelClass = "block text-xs font-medium uppercase tracking-wider text-slate-400 mb-1.5";
+
+export const RecapComposer: React.FC<RecapComposerProps> = ({ isOpen, data, onClose, onNotify }) => {
+  const [template, setTemplate] = useState(loadRecapTemplate);
+  const [to, setTo] = useState('');
+
+  // The template is remembered across meetings
+  useEffect(() => {
+    saveRecapTemplate(template);
+  }, [template]);
+
+  const draft = useMemo(() => renderRecap(template, data), [template, data]);
+
+  if (!isOpen) return null;
+
+  const mailtoUrl = buildMailtoUrl(draft, to);
+  const isMailtoTooLong = mailtoUrl.length > MAILTO_MAX_LENGTH;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(`Subject: ${draft.subject}\n\n${draft.body}`);
+      onNotify("Recap copied to clipboard.", 'success');
+    } catch {
+      onNotify("Could not access the clipboard.", 'error');
+    }
+  };
+
+  const handleDownloadEml = () => {
+    downloadFile(buildEml(draft, to), `${slugify(data.title)}-recap.eml`, 'message/rfc822');
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl animate-in fade-in zoom-in duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-100">Email Recap</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-200 rounded" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" x2="6" y1="6" y2="18"/><line x1="6" x2="18" y1="6" y2="18"/></svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div>
+            <label className={labelClass}>To</label>
+            <input
+              value={to}
+              onChange={e => setTo(e.target.value)}
+              placeholder="team@example.com, priya@example.com"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="flex flex-col">
+              <div className="flex items-center justify-between mb-1.5">
+                <label className={`${labelClass} mb-0`}>Template</label>
+                {template !== DEFAULT_RECAP_TEMPLATE && (
+                  <button onClick={() => setTemplate(DEFAULT_RECAP_TEMPLATE)} className="text-xs text-blue-400 hover:text-blue-300">
+                    Reset to default
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={template}
+                onChange={e => setTemplate(e.target.value)}
+                spellCheck={false}
+                className={`${inputClass} font-mono text-xs h-72 resize-y`}
+              />
+              <p className="mt-2 text-[11px] text-slate-500 leading-relaxed">
+                {RECAP_PLACEHOLDERS.map(({ key, description }) => (
+                  <span key={key} className="mr-3 whitespace-nowrap" title={description}>
+                    <code className="text-slate-300">{`{{${key}}}`}</code>
+                  </span>
+                ))}
+                <br />
+                A first line starting with <code className="text-slate-300">Subject:</code> sets the subject.
+              </p>
+            </div>
+
+            <div className="flex flex-col">
+              <label className={labelClass}>Preview</label>
+              <div className="flex-1 rounded-md border border-slate-700 bg-slate-950/50 p-3 text-sm overflow-y-auto h-72">
+                <p className="text-slate-100 font-medium mb-2">{draft.subject}</p>
+                <pre className="whitespace-pre-wrap font-sans text-slate-300">{draft.body}</pre>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex flex-wrap items-center justify-end gap-2">
+          {isMailtoTooLong && (
+            <span className="mr-auto text-xs text-amber-300">Too long for a mail link; download the .eml instead.</span>
+          )}
+          <button onClick={handleCopy} className="px-4 py-2 text-sm text-slate-300 hover:text-white transition-colors">
+            Copy
+          </button>
+          <a
+            href={isMailtoTooLong ? undefined : mailtoUrl}
+            aria-disabled={isMailtoTooLong}
+            className={`px-4 py-2 text-sm font-medium rounded-md border border-slate-600 transition-colors ${
+              isMailtoTooLong ? 'text-slate-500 cursor-not-allowed' : 'text-slate-200 hover:bg-slate-800'
+            }`}
+          >
+            Open in Mail App
+          </a>
+          <button
+            onClick={handleDownloadEml}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 rounded-md transition-colors"
+          >
+            Download .eml
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
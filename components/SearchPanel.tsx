@@ -0,0 +1,125 @@
+import React, { useState, useEffect, useMemo, useDeferredValue } from 'react';
+import { Session } from '../types';
+import { buildSearchIndex, searchSessions, highlightTerms, SearchDocument } from '../services/searchIndex';
+
+interface SearchPanelProps {
+  isOpen: boolean;
+  sessions: Session[];
+  onClose: () => void;
+  onSelect: (document: SearchDocument) => void;
+}
+
+const inputClass = "bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// <input type="date"> values are local calendar days
+const parseDay = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+
+const formatResultTime = (document: SearchDocument) => {
+  const date = new Date(document.sessionStartedAt).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+  if (!document.chunkId) return `${date} · Analysis`;
+  return `${date} · ${new Date(document.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ isOpen, sessions, onClose, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [speaker, setSpeaker] = useState('');
+  // Typing stays responsive while a large library is ranked
+  const deferredQuery = useDeferredValue(query);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Rebuilt when the library changes; only while the panel is open
+  const index = useMemo(() => isOpen ? buildSearchIndex(sessions) : null, [isOpen, sessions]);
+
+  const results = useMemo(() => {
+    if (!index) return [];
+    const to = parseDay(toDay);
+    return searchSessions(index, deferredQuery, {
+      from: parseDay(fromDay),
+      to: to !== undefined ? to + DAY_MS : undefined,
+      speaker: speaker || undefined
+    });
+  }, [index, deferredQuery, fromDay, toDay, speaker]);
+
+  if (!isOpen || !index) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/60 flex items-start justify-center p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl animate-in fade-in zoom-in duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-700 space-y-3">
+          <input
+            autoFocus
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search all meetings, e.g. pricing change"
+            className={`${inputClass} w-full px-3 py-2`}
+          />
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+            <label className="flex items-center gap-1.5">
+              From
+              <input type="date" value={fromDay} onChange={e => setFromDay(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center gap-1.5">
+              To
+              <input type="date" value={toDay} onChange={e => setToDay(e.target.value)} className={inputClass} />
+            </label>
+            <select value={speaker} onChange={e => setSpeaker(e.target.value)} className={inputClass}>
+              <option value="">Any speaker</option>
+              {index.speakers.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {!deferredQuery.trim() ? (
+            <p className="p-4 text-sm text-slate-500 text-center">
+              Searches transcripts and analyses of {sessions.length} saved {sessions.length === 1 ? 'session' : 'sessions'}.
+            </p>
+          ) : results.length === 0 ? (
+            <p className="p-4 text-sm text-slate-500 text-center">No matches.</p>
+          ) : (
+            <ul className="space-y-1">
+              {results.map(({ document, snippet }) => (
+                <li key={`${document.sessionId}-${document.chunkId ?? 'analysis'}`}>
+                  <button
+                    onClick={() => onSelect(document)}
+                    className="w-full text-left rounded-md px-3 py-2 hover:bg-slate-800 transition-colors"
+                  >
+                    <div className="flex items-baseline justify-between gap-3">
+                      <span className="text-sm font-medium text-slate-200 truncate">{document.sessionTitle}</span>
+                      <span className="text-[11px] text-slate-500 shrink-0">{formatResultTime(document)}</span>
+                    </div>
+                    <p className="mt-0.5 text-xs text-slate-400 leading-relaxed">
+                      {highlightTerms(snippet, deferredQuery).map((segment, i) => segment.isMatch
+                        ? <mark key={i} className="rounded px-0.5 bg-amber-400/30 text-slate-100">{segment.text}</mark>
+                        : <React.Fragment key={i}>{segment.text}</React.Fragment>
+                      )}
+                    </p>
+                    {document.speakers.length > 0 && (
+                      <p className="mt-0.5 text-[11px] text-slate-500">{document.speakers.join(', ')}</p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useState, useMemo } from 'react';
+import { Session } from '../types';
+
+interface SessionSidebarProps {
+  isOpen: boolean;
+  sessions: Session[];
+  activeSessionId: string | null;
+  isLoading: boolean;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}
+
+const AUDIO_SOURCE_LABELS: Record<Session['audioSource'], string> = {
+  'system-and-mic': 'System + Mic',
+  'mic-only': 'Mic only',
+  'file': 'Imported file',
+};
+
+const formatSessionDate = (session: Session) => {
+  const start = new Date(session.startedAt);
+  const date = start.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+  const time = start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const end = session.endedAt ?? session.chunks[session.chunks.length - 1]?.timestamp;
+  const minutes = end ? Math.max(1, Math.round((end - session.startedAt) / 60000)) : null;
+  return minutes ? `${date} · ${time} · ${minutes} min` : `${date} · ${time}`;
+};
+
+const matchesQuery = (session: Session, query: string) => {
+  if (session.title.toLowerCase().includes(query)) return true;
+  return session.chunks.some(chunk => chunk.text.toLowerCase().includes(query));
+};
+
+const SessionRow: React.FC<{
+  session: Session;
+  isActive: boolean;
+  onOpen: () => void;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}> = ({ session, isActive, onOpen, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(session.title);
+
+  const commitRename = () => {
+    setIsEditing(false);
+    const title = draft.trim();
+    if (title && title !== session.title) onRename(title);
+    else setDraft(session.title);
+  };
+
+  return (
+    <li
+      className={`group rounded-lg border p-3 transition-colors cursor-pointer ${isActive ? 'border-blue-500/40 bg-blue-500/10' : 'border-slate-700 bg-slate-800/40 hover:bg-slate-800'}`}
+      onClick={() => !isEditing && onOpen()}
+    >
+      {isEditing ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onClick={e => e.stopPropagation()}
+          onBlur={commitRename}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') { setDraft(session.title); setIsEditing(false); }
+          }}
+          className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-slate-100 focus:outline-none focus:border-blue-500"
+        />
+      ) : (
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-sm font-medium text-slate-100 truncate">{session.title}</p>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+            <button
+              onClick={e => { e.stopPropagation(); setDraft(session.title); setIsEditing(true); }}
+              className="p-1 text-slate-400 hover:text-slate-200 rounded"
+              title="Rename Session"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/></svg>
+            </button>
+            <button
+              onClick={e => { e.stopPropagation(); onDelete(); }}
+              className="p-1 text-slate-400 hover:text-red-400 rounded"
+              title="Delete Session"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
+            </button>
+          </div>
+        </div>
+      )}
+      <p className="text-[11px] text-slate-500 mt-1">{formatSessionDate(session)}</p>
+      <p className="text-[11px] text-slate-500">
+        {session.chunks.length} segments · {AUDIO_SOURCE_LABELS[session.audioSource]}
+      </p>
+    </li>
+  );
+};
+
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  isOpen,
+  sessions,
+  activeSessionId,
+  isLoading,
+  onClose,
+  onOpen,
+  onRename,
+  onDelete,
+  onNew
+}) => {
+  const [query, setQuery] = useState('');
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return q ? sessions.filter(s => matchesQuery(s, q)) : sessions;
+  }, [sessions, query]);
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-950/60 z-30" onClick={onClose} />
+      <aside className="fixed top-0 left-0 bottom-0 w-80 max-w-[85vw] bg-slate-900 border-r border-slate-700 z-40 flex flex-col shadow-2xl animate-in slide-in-from-left duration-300">
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-100">Sessions</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-200 rounded" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" x2="6" y1="6" y2="18"/><line x1="6" x2="18" y1="6" y2="18"/></svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-slate-700">
+          <button
+            onClick={onNew}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 rounded-md transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="12" x2="12" y1="5" y2="19"/><line x1="5" x2="19" y1="12" y2="12"/></svg>
+            New Session
+          </button>
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search titles and transcripts..."
+            className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading ? (
+            <p className="text-sm text-slate-500 text-center">Loading sessions...</p>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center italic">
+              {sessions.length === 0 ? "No saved sessions yet." : "No sessions match your search."}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {filtered.map(session => (
+                <SessionRow
+                  key={session.id}
+                  session={session}
+                  isActive={session.id === activeSessionId}
+                  onOpen={() => onOpen(session.id)}
+                  onRename={title => onRename(session.id, title)}
+                  onDelete={() => onDelete(session.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { ProviderSettings, TranscriptionProviderId, AnalysisProviderId } from '../types';
+import { TRANSCRIPTION_PROVIDER_OPTIONS, ANALYSIS_PROVIDER_OPTIONS } from '../services/providers';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  settings: ProviderSettings;
+  onClose: () => void;
+  onSave: (settings: ProviderSettings) => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500";
+const labelClass = "block text-xs font-medium uppercase tracking-wider text-slate-400 mb-1.5";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, settings, onClose, onSave }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  // Start from the saved settings each time the panel opens
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof ProviderSettings>(key: K, value: ProviderSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-900 border border-slate-700 rounded-xl shadow-2xl animate-in fade-in zoom-in duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-100">Settings</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-200 rounded" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" x2="6" y1="6" y2="18"/><line x1="6" x2="18" y1="6" y2="18"/></svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className={labelClass}>Transcription Provider</label>
+            <select
+              value={draft.transcriptionProvider}
+              onChange={e => update('transcriptionProvider', e.target.value as TranscriptionProviderId)}
+              className={inputClass}
+            >
+              {TRANSCRIPTION_PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {draft.transcriptionProvider === 'whisper' && (
+            <div className="space-y-3 pl-3 border-l-2 border-slate-700">
+              <div>
+                <label className={labelClass}>Endpoint URL</label>
+                <input
+                  value={draft.whisperEndpoint}
+                  onChange={e => update('whisperEndpoint', e.target.value)}
+                  placeholder="http://localhost:8000"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Model</label>
+                <input
+                  value={draft.whisperModel}
+                  onChange={e => update('whisperModel', e.target.value)}
+                  placeholder="whisper-1"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>API Key (optional)</label>
+                <input
+                  type="password"
+                  value={draft.whisperApiKey}
+                  onChange={e => update('whisperApiKey', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Analysis Provider</label>
+            <select
+              value={draft.analysisProvider}
+              onChange={e => update('analysisProvider', e.target.value as AnalysisProviderId)}
+              className={inputClass}
+            >
+              {ANALYSIS_PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            The local stubs return a scripted meeting and keyword-based analysis, so the app works offline without an API key.
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 rounded-md transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
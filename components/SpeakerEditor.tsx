@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { SpeakerRegistry } from '../types';
+import { canonicalSpeaker, resolveSpeaker } from '../services/speakers';
+
+interface SpeakerEditorProps {
+  label: string; // Raw transcript label, e.g. "Speaker 2"
+  registry: SpeakerRegistry;
+  allLabels: string[];
+  onRename: (label: string, name: string) => void;
+  onMerge: (label: string, target: string) => void;
+  onUnmerge: (label: string) => void;
+  onClose: () => void;
+}
+
+export const SpeakerEditor: React.FC<SpeakerEditorProps> = ({
+  label,
+  registry,
+  allLabels,
+  onRename,
+  onMerge,
+  onUnmerge,
+  onClose
+}) => {
+  const canonical = canonicalSpeaker(registry, label);
+  const [name, setName] = useState(registry.names[canonical] ?? '');
+  const isMerged = canonical !== label;
+
+  // Other people this label could be merged into (one entry per canonical speaker)
+  const mergeTargets = [...new Set(allLabels.map(l => canonicalSpeaker(registry, l)))]
+    .filter(target => target !== canonical);
+
+  const save = () => {
+    onRename(label, name);
+    onClose();
+  };
+
+  return (
+    <div
+      className="mt-1 mb-2 w-full max-w-xs rounded-lg border border-slate-600 bg-slate-900 p-3 shadow-xl space-y-3 animate-in fade-in zoom-in duration-150"
+      onClick={e => e.stopPropagation()}
+    >
+      <div>
+        <label className="block text-[10px] font-medium uppercase tracking-wider text-slate-400 mb-1">
+          Name for {canonical}
+        </label>
+        <div className="flex gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') save();
+              if (e.key === 'Escape') onClose();
+            }}
+            placeholder="e.g. Priya"
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-100 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={save}
+            className="px-2 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {isMerged ? (
+        <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+          <span>{label} is merged into {resolveSpeaker(registry, label)}.</span>
+          <button
+            onClick={() => { onUnmerge(label); onClose(); }}
+            className="text-blue-400 hover:text-blue-300 shrink-0"
+          >
+            Unmerge
+          </button>
+        </div>
+      ) : mergeTargets.length > 0 && (
+        <div>
+          <label className="block text-[10px] font-medium uppercase tracking-wider text-slate-400 mb-1">
+            Same person as
+          </label>
+          <select
+            value=""
+            onChange={e => {
+              if (e.target.value) {
+                onMerge(label, e.target.value);
+                onClose();
+              }
+            }}
+            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+          >
+            <option value="">Merge {label} into...</option>
+            {mergeTargets.map(target => (
+              <option key={target} value={target}>{resolveSpeaker(registry, target)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
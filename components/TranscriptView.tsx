@@ -1,11 +1,86 @@
-import React, { useEffect, useRef } from 'react';
-import { TranscriptChunk } from '../types';
+import React, { useEffect, useRef, useState, useMemo } from 'react';
+import { TranscriptChunk, PendingChunk, SpeakerRegistry, Chapter } from '../types';
+import { SPEAKER_LABEL_REGEX, canonicalSpeaker, resolveSpeaker, emptySpeakerRegistry, listSpeakerLabels } from '../services/speakers';
+import { SpeakerEditor } from './SpeakerEditor';
+import { ChunkEditor } from './ChunkEditor';
+import { ExportMenu } from './ExportMenu';
+import { TranscriptExportFormat, TRANSCRIPT_EXPORT_FORMATS } from '../services/transcriptExport';
+import { TRANSLATION_LANGUAGES, isRtlLanguage, languageName } from '../services/translation';
+import { highlightMatches, countMatches } from '../services/transcriptSearch';
+import { assignChapters, chapterStarts } from '../services/chapters';
+
+interface SpeakerActions {
+  registry: SpeakerRegistry;
+  allLabels: string[];
+  onRename: (label: string, name: string) => void;
+  onMerge: (label: string, target: string) => void;
+  onUnmerge: (label: string) => void;
+}
+
+export interface TranscriptEditActions {
+  onEdit: (chunkId: string, text: string) => void;
+  onSplit: (chunkId: string, offset: number) => void;
+  onMergeWithNext: (chunkId: string) => void;
+  onDelete: (chunkId: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface TranscriptPlayback {
+  playingChunkId: string | null;
+  canPlay: (chunk: TranscriptChunk) => boolean;
+  // untilTimestamp is the next chunk's start, so long recordings stop where the chunk ends
+  onToggle: (chunk: TranscriptChunk, untilTimestamp?: number) => void;
+  onDownload?: () => void;
+  isPreparingDownload?: boolean;
+}
 
 interface TranscriptViewProps {
   chunks: TranscriptChunk[];
+  speakerRegistry?: SpeakerRegistry;
+  onRenameSpeaker?: (label: string, name: string) => void;
+  onMergeSpeaker?: (label: string, target: string) => void;
+  onUnmergeSpeaker?: (label: string) => void;
+  pendingChunks?: PendingChunk[];
+  onRetryChunk?: (sequence: number) => void;
   isProcessing: boolean;
+  onExport?: (format: TranscriptExportFormat) => void;
+  // When set, timestamps are shown as elapsed time from this moment (imported recordings)
+  elapsedFrom?: number;
+  // Scrolls to and briefly highlights a chunk; a new object re-triggers for the same chunk
+  focusRequest?: { chunkId: string } | null;
+  editing?: TranscriptEditActions;
+  // Session translation; chunks carry their translated text once it arrives
+  targetLanguage?: string;
+  onTargetLanguageChange?: (code: string) => void;
+  translatingChunkId?: string | null;
+  playback?: TranscriptPlayback;
+  chapters?: Chapter[];
+  onDetectChapters?: () => void;
+  isDetectingChapters?: boolean;
 }
 
+type TranslationView = 'original' | 'translated' | 'both';
+
+const TRANSLATION_VIEWS: { id: TranslationView; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'both', label: 'Both' },
+  { id: 'translated', label: 'Translated' },
+];
+
+const FOCUS_HIGHLIGHT_MS = 2000;
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
 // Utility to assign a stable color to a speaker ID
 const getSpeakerColor = (speakerName: string) => {
   const colors = [
@@ -26,30 +101,75 @@ const getSpeakerColor = (speakerName: string) => {
   return colors[Math.abs(hash) % colors.length];
 };
 
-const TranscriptItem: React.FC<{ text: string }> = ({ text }) => {
-  // Regex to detect "Speaker X:" or "Speaker 1:" at start of line
-  const speakerRegex = /^(Speaker \d+|Speaker [A-Z]|Participant \d+|User):/i;
+// activeIndex counts matches across the whole chunk; -1 when the active match is elsewhere
+interface SearchHighlight {
+  query: string;
+  activeIndex: number;
+}
+
+const TranscriptItem: React.FC<{ text: string; speakers?: SpeakerActions; search?: SearchHighlight }> = ({ text, speakers, search }) => {
+  const [editingLine, setEditingLine] = useState<number | null>(null);
+  const registry = speakers?.registry ?? emptySpeakerRegistry();
   
   // Split by newlines first to handle multi-line chunks
   const lines = text.split('\n').filter(line => line.trim() !== '');
 
+  // Matches are numbered in reading order so the active one can be marked
+  let matchIndex = 0;
+  const highlight = (value: string) => !search?.query.trim() ? value : highlightMatches(value, search.query).map((segment, i) => {
+    if (!segment.isMatch) return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+    const isActive = matchIndex++ === search.activeIndex;
+    return (
+      <mark
+        key={i}
+        data-search-active={isActive || undefined}
+        className={`rounded px-0.5 ${isActive ? 'bg-amber-400 text-slate-900' : 'bg-amber-400/30 text-slate-100'}`}
+      >
+        {segment.text}
+      </mark>
+    );
+  });
+
   return (
     <div className="space-y-2">
       {lines.map((line, idx) => {
-        const match = line.match(speakerRegex);
+        const match = line.match(SPEAKER_LABEL_REGEX);
         
         if (match) {
           const speakerLabel = match[1]; // e.g. "Speaker 1"
-          const message = line.replace(speakerRegex, '').trim();
-          const colorClass = getSpeakerColor(speakerLabel);
+          const message = line.replace(SPEAKER_LABEL_REGEX, '').trim();
+          // Merged labels share the color of the person they were merged into
+          const colorClass = getSpeakerColor(canonicalSpeaker(registry, speakerLabel));
+          const displayName = resolveSpeaker(registry, speakerLabel);
 
           return (
             <div key={idx} className="flex flex-col gap-1">
-              <span className={`self-start text-[10px] uppercase font-bold tracking-wider px-2 py-0.5 rounded-full border ${colorClass}`}>
-                {speakerLabel}
-              </span>
+              {speakers ? (
+                <button
+                  onClick={() => setEditingLine(editingLine === idx ? null : idx)}
+                  className={`self-start text-[10px] uppercase font-bold tracking-wider px-2 py-0.5 rounded-full border hover:brightness-125 transition ${colorClass}`}
+                  title={displayName === speakerLabel ? "Click to name this speaker" : `${speakerLabel} · click to edit`}
+                >
+                  {displayName}
+                </button>
+              ) : (
+                <span className={`self-start text-[10px] uppercase font-bold tracking-wider px-2 py-0.5 rounded-full border ${colorClass}`}>
+                  {displayName}
+                </span>
+              )}
+              {speakers && editingLine === idx && (
+                <SpeakerEditor
+                  label={speakerLabel}
+                  registry={registry}
+                  allLabels={speakers.allLabels}
+                  onRename={speakers.onRename}
+                  onMerge={speakers.onMerge}
+                  onUnmerge={speakers.onUnmerge}
+                  onClose={() => setEditingLine(null)}
+                />
+              )}
               <span className="text-slate-200 leading-relaxed pl-1">
-                {message}
+                {highlight(message)}
               </span>
             </div>
           );
@@ -58,7 +178,7 @@ const TranscriptItem: React.FC<{ text: string }> = ({ text }) => {
         // Fallback for lines without explicit speaker label
         return (
           <div key={idx} className="text-slate-200 leading-relaxed">
-            {line}
+            {highlight(line)}
           </div>
         );
       })}
@@ -66,12 +186,291 @@ const TranscriptItem: React.FC<{ text: string }> = ({ text }) => {
   );
 };
 
-export const TranscriptView: React.FC<TranscriptViewProps> = ({ chunks, isProcessing }) => {
+const PendingItem: React.FC<{ pending: PendingChunk; onRetry?: () => void }> = ({ pending, onRetry }) => {
+  if (pending.status === 'failed') {
+    return (
+      <div className="flex items-center gap-3 text-xs text-red-300 bg-red-500/10 border border-red-500/20 rounded-md px-3 py-2">
+        <span className="flex-1">Failed — {pending.error || "Transcription failed."}</span>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="px-2 py-0.5 font-medium text-red-200 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded transition-colors"
+          >
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-500 italic">
+      <svg className="animate-spin h-3 w-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+      </svg>
+      {pending.status === 'retrying'
+        ? `Retrying (attempt ${pending.attempts})...`
+        : "Transcribing..."}
+    </div>
+  );
+};
+
+const TranslationPlaceholder: React.FC<{ isTranslating: boolean }> = ({ isTranslating }) => (
+  <p className="text-xs text-slate-500 italic">{isTranslating ? "Translating..." : "Waiting for translation..."}</p>
+);
+
+/**
+ * A chunk's original text, its translation, or both side by side. Translations in right-to-left
+ * languages are laid out accordingly; speaker labels stay recognizable since the translation keeps them.
+ */
+const ChunkText: React.FC<{
+  chunk: TranscriptChunk;
+  view: TranslationView;
+  targetLanguage: string;
+  isTranslating: boolean;
+  speakers?: SpeakerActions;
+  search?: SearchHighlight;
+}> = ({ chunk, view, targetLanguage, isTranslating, speakers, search }) => {
+  const translation = chunk.translatedTo === targetLanguage ? chunk.translatedText : undefined;
+  // Navigation steps through the translation only when it's the text on screen
+  const searchesTranslation = view === 'translated';
+  const original = (
+    <div dir={isRtlLanguage(chunk.sourceLanguage) ? 'rtl' : undefined}>
+      <TranscriptItem text={chunk.text} speakers={speakers} search={search && (searchesTranslation ? { ...search, activeIndex: -1 } : search)} />
+    </div>
+  );
+  const translated = translation !== undefined ? (
+    <div dir={isRtlLanguage(targetLanguage) ? 'rtl' : undefined}>
+      <TranscriptItem text={translation} speakers={speakers} search={search && (searchesTranslation ? search : { ...search, activeIndex: -1 })} />
+    </div>
+  ) : (
+    <TranslationPlaceholder isTranslating={isTranslating} />
+  );
+
+  if (view === 'original') return original;
+  if (view === 'translated') return translated;
+  // No need to repeat text that was already in the target language
+  if (translation === chunk.text) return original;
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {original}
+      <div className="pl-4 border-l border-slate-700">{translated}</div>
+    </div>
+  );
+};
+
+const ChapterHeader: React.FC<{
+  chapter: Chapter;
+  startLabel: string;
+  size: number;
+  isCollapsed: boolean;
+  onToggle: () => void;
+}> = ({ chapter, startLabel, size, isCollapsed, onToggle }) => (
+  <button
+    data-chapter-id={chapter.id}
+    onClick={onToggle}
+    className="w-full flex items-start gap-2 text-left pt-2 pb-1.5 border-b border-slate-700/60 scroll-mt-2"
+  >
+    <svg
+      xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"
+      className={`mt-0.5 shrink-0 text-slate-500 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+    >
+      <path d="m6 9 6 6 6-6"/>
+    </svg>
+    <span className="flex-1 min-w-0">
+      <span className="flex items-baseline gap-2">
+        <span className="text-sm font-semibold text-slate-200">{chapter.title}</span>
+        <span className="text-[10px] font-mono text-slate-500">{startLabel}{isCollapsed ? ` · ${size} ${size === 1 ? 'segment' : 'segments'}` : ''}</span>
+      </span>
+      {chapter.summary && <span className="block text-xs text-slate-400 mt-0.5">{chapter.summary}</span>}
+    </span>
+  </button>
+);
+
+type TranscriptRow =
+  | { kind: 'chunk'; timestamp: number; chunk: TranscriptChunk }
+  | { kind: 'pending'; timestamp: number; pending: PendingChunk };
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({
+  chunks,
+  speakerRegistry,
+  onRenameSpeaker,
+  onMergeSpeaker,
+  onUnmergeSpeaker,
+  pendingChunks = [],
+  onRetryChunk,
+  isProcessing,
+  onExport,
+  elapsedFrom,
+  focusRequest,
+  editing,
+  targetLanguage = '',
+  onTargetLanguageChange,
+  translatingChunkId,
+  playback,
+  chapters = [],
+  onDetectChapters,
+  isDetectingChapters = false
+}) => {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [highlightedChunkId, setHighlightedChunkId] = useState<string | null>(null);
+  const [editingChunkId, setEditingChunkId] = useState<string | null>(null);
+  // Edited chunks whose original machine text is expanded
+  const [auditChunkIds, setAuditChunkIds] = useState<Set<string>>(new Set());
+  const [translationView, setTranslationView] = useState<TranslationView>('both');
+  const view: TranslationView = targetLanguage ? translationView : 'original';
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeMatch, setActiveMatch] = useState(0);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [collapsedChapterIds, setCollapsedChapterIds] = useState<Set<string>>(new Set());
+  const allLabels = useMemo(() => listSpeakerLabels(chunks), [chunks]);
 
+  const speakerActions: SpeakerActions | undefined = speakerRegistry && onRenameSpeaker && onMergeSpeaker && onUnmergeSpeaker
+    ? { registry: speakerRegistry, allLabels, onRename: onRenameSpeaker, onMerge: onMergeSpeaker, onUnmerge: onUnmergeSpeaker }
+    : undefined;
+
+  // Follows new chunks, but not manual edits further up
+  const lastChunkId = chunks[chunks.length - 1]?.id;
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [chunks]);
+  }, [lastChunkId, pendingChunks.length]);
+
+  // Undo/redo shortcuts, except while typing somewhere
+  useEffect(() => {
+    if (!editing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z' && e.key.toLowerCase() !== 'y') return;
+      e.preventDefault();
+      if (e.key.toLowerCase() === 'y' || e.shiftKey) editing.onRedo();
+      else editing.onUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editing]);
+
+  const sortedChunks = useMemo(() => [...chunks].sort((a, b) => a.timestamp - b.timestamp), [chunks]);
+  const chunkChapters = useMemo(() => assignChapters(chapters, sortedChunks), [chapters, sortedChunks]);
+  const chaptersByStart = useMemo(() => chapterStarts(chapters, sortedChunks), [chapters, sortedChunks]);
+  const chapterSizes = useMemo(() => {
+    const sizes = new Map<string, number>();
+    chunkChapters.forEach(chapter => sizes.set(chapter.id, (sizes.get(chapter.id) ?? 0) + 1));
+    return sizes;
+  }, [chunkChapters]);
+
+  const setChapterCollapsed = (chapterId: string, collapsed: boolean) => {
+    setCollapsedChapterIds(prev => {
+      if (prev.has(chapterId) === collapsed) return prev;
+      const next = new Set(prev);
+      if (collapsed) next.add(chapterId);
+      else next.delete(chapterId);
+      return next;
+    });
+  };
+
+  // Expands the chapter holding a chunk, so it can be scrolled to
+  const revealChunk = (chunkId: string) => {
+    const chapter = chunkChapters.get(chunkId);
+    if (chapter) setChapterCollapsed(chapter.id, false);
+  };
+
+  const goToChapter = (chapter: Chapter) => {
+    setChapterCollapsed(chapter.id, false);
+    listRef.current?.querySelector(`[data-chapter-id="${CSS.escape(chapter.id)}"]`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  // Every match in reading order, as its chunk and its position within that chunk
+  const searchMatches = useMemo(() => {
+    if (!isSearchOpen || !searchQuery.trim()) return [];
+    return sortedChunks
+      .flatMap(chunk => {
+        const text = view === 'translated' ? (chunk.translatedTo === targetLanguage ? chunk.translatedText ?? '' : '') : chunk.text;
+        return Array.from({ length: countMatches(text, searchQuery) }, (_, index) => ({ chunkId: chunk.id, index }));
+      });
+  }, [sortedChunks, isSearchOpen, searchQuery, view, targetLanguage]);
+  const currentMatch = searchMatches.length > 0 ? searchMatches[Math.min(activeMatch, searchMatches.length - 1)] : null;
+
+  useEffect(() => {
+    setActiveMatch(0);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    if (!currentMatch) return;
+    revealChunk(currentMatch.chunkId);
+    // Wait a frame in case the match's chapter was collapsed
+    const frame = requestAnimationFrame(() => {
+      listRef.current?.querySelector('[data-search-active]')?.scrollIntoView({ behavior: "smooth", block: "center" });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [currentMatch?.chunkId, currentMatch?.index]);
+
+  const openSearch = () => {
+    setIsSearchOpen(true);
+    // The input may not be mounted yet
+    setTimeout(() => searchInputRef.current?.select());
+  };
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setSearchQuery('');
+  };
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (searchMatches.length === 0) return;
+    setActiveMatch(prev => (Math.min(prev, searchMatches.length - 1) + direction + searchMatches.length) % searchMatches.length);
+  };
+
+  // Ctrl/Cmd+F searches the transcript instead of the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'f' || chunks.length === 0) return;
+      e.preventDefault();
+      openSearch();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [chunks.length]);
+
+  const toggleAudit = (chunkId: string) => {
+    setAuditChunkIds(prev => {
+      const next = new Set(prev);
+      if (next.has(chunkId)) next.delete(chunkId);
+      else next.add(chunkId);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    revealChunk(focusRequest.chunkId);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Wait a frame in case the chunk's chapter was collapsed
+    const frame = requestAnimationFrame(() => {
+      const element = listRef.current?.querySelector(`[data-chunk-id="${CSS.escape(focusRequest.chunkId)}"]`);
+      if (!element) return;
+      element.scrollIntoView({ behavior: "smooth", block: "center" });
+      setHighlightedChunkId(focusRequest.chunkId);
+      timer = setTimeout(() => setHighlightedChunkId(null), FOCUS_HIGHLIGHT_MS);
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [focusRequest]);
+
+  // Pending and failed chunks are shown at their capture position among committed ones
+  const rows: TranscriptRow[] = [
+    ...chunks.map(chunk => ({ kind: 'chunk' as const, timestamp: chunk.timestamp, chunk })),
+    ...pendingChunks.map(pending => ({ kind: 'pending' as const, timestamp: pending.timestamp, pending }))
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
+  const formatTimestamp = (timestamp: number) => elapsedFrom !== undefined
+    ? formatElapsed(timestamp - elapsedFrom)
+    : new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
 
   return (
     <div className="flex flex-col h-full bg-slate-800/50 backdrop-blur-sm rounded-xl border border-slate-700 overflow-hidden shadow-lg">
@@ -80,32 +479,273 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ chunks, isProces
           <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-blue-400"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" x2="12" y1="19" y2="22"/></svg>
           Live Transcript
         </h2>
-        {isProcessing && (
-          <div className="flex items-center gap-2 text-xs text-blue-400 animate-pulse">
-            <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
-            Listening...
-          </div>
-        )}
+        <div className="flex items-center gap-3">
+          {onTargetLanguageChange && (
+            <select
+              value={targetLanguage}
+              onChange={e => onTargetLanguageChange(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+              title="Translate the transcript and write the analysis in this language"
+            >
+              <option value="">No translation</option>
+              {TRANSLATION_LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.name}</option>
+              ))}
+            </select>
+          )}
+          {targetLanguage && (
+            <div className="flex rounded-md border border-slate-700 overflow-hidden text-[11px]">
+              {TRANSLATION_VIEWS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setTranslationView(option.id)}
+                  className={`px-2 py-1 transition-colors ${
+                    view === option.id ? 'bg-slate-700 text-slate-100' : 'text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+          {onDetectChapters && chunks.length > 0 && (
+            <button
+              onClick={onDetectChapters}
+              disabled={isDetectingChapters}
+              className="p-1.5 text-slate-400 hover:text-slate-200 disabled:opacity-50 disabled:animate-pulse"
+              title={isDetectingChapters ? "Detecting Chapters..." : chapters.length ? "Refresh Chapters" : "Detect Chapters"}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="8" x2="21" y1="6" y2="6"/><line x1="8" x2="21" y1="12" y2="12"/><line x1="8" x2="21" y1="18" y2="18"/><line x1="3" x2="3.01" y1="6" y2="6"/><line x1="3" x2="3.01" y1="12" y2="12"/><line x1="3" x2="3.01" y1="18" y2="18"/></svg>
+            </button>
+          )}
+          {isSearchOpen ? (
+            <div className="flex items-center gap-1 bg-slate-800 border border-slate-700 rounded-md pl-2 pr-1 focus-within:border-blue-500">
+              <input
+                ref={searchInputRef}
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') { e.preventDefault(); stepMatch(e.shiftKey ? -1 : 1); }
+                  if (e.key === 'Escape') closeSearch();
+                }}
+                placeholder="Search transcript"
+                className="w-32 bg-transparent py-1 text-xs text-slate-200 placeholder-slate-500 focus:outline-none"
+              />
+              <span className="text-[10px] font-mono text-slate-500 min-w-[2.5rem] text-right">
+                {searchQuery.trim() ? `${currentMatch ? searchMatches.indexOf(currentMatch) + 1 : 0}/${searchMatches.length}` : ''}
+              </span>
+              <button onClick={() => stepMatch(-1)} disabled={searchMatches.length === 0} className="p-0.5 text-slate-400 hover:text-slate-200 disabled:opacity-30" title="Previous Match (Shift+Enter)">
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m18 15-6-6-6 6"/></svg>
+              </button>
+              <button onClick={() => stepMatch(1)} disabled={searchMatches.length === 0} className="p-0.5 text-slate-400 hover:text-slate-200 disabled:opacity-30" title="Next Match (Enter)">
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m6 9 6 6 6-6"/></svg>
+              </button>
+              <button onClick={closeSearch} className="p-0.5 text-slate-400 hover:text-slate-200" title="Close Search (Esc)">
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" x2="6" y1="6" y2="18"/><line x1="6" x2="18" y1="6" y2="18"/></svg>
+              </button>
+            </div>
+          ) : chunks.length > 0 && (
+            <button onClick={openSearch} className="p-1.5 text-slate-400 hover:text-slate-200" title="Search Transcript (Ctrl+F)">
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"/><path d="m21 21-4.3-4.3"/></svg>
+            </button>
+          )}
+          {editing && (editing.canUndo || editing.canRedo) && (
+            <div className="flex items-center">
+              <button
+                onClick={editing.onUndo}
+                disabled={!editing.canUndo}
+                className="p-1.5 text-slate-400 hover:text-slate-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Undo Edit (Ctrl+Z)"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 7v6h6"/><path d="M21 17a9 9 0 0 0-9-9 9 9 0 0 0-6 2.3L3 13"/></svg>
+              </button>
+              <button
+                onClick={editing.onRedo}
+                disabled={!editing.canRedo}
+                className="p-1.5 text-slate-400 hover:text-slate-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Redo Edit (Ctrl+Shift+Z)"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 7v6h-6"/><path d="M3 17a9 9 0 0 1 9-9 9 9 0 0 1 6 2.3l3 2.7"/></svg>
+              </button>
+            </div>
+          )}
+          {isProcessing && (
+            <div className="flex items-center gap-2 text-xs text-blue-400 animate-pulse">
+              <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
+              Listening...
+            </div>
+          )}
+          {playback?.onDownload && (
+            <button
+              onClick={playback.onDownload}
+              disabled={playback.isPreparingDownload}
+              className="p-1.5 text-slate-400 hover:text-slate-200 disabled:opacity-50 disabled:animate-pulse"
+              title={playback.isPreparingDownload ? "Preparing Recording..." : "Download Full Recording"}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M9 18V5l12-2v13"/><circle cx="6" cy="18" r="3"/><circle cx="18" cy="16" r="3"/></svg>
+            </button>
+          )}
+          {onExport && chunks.length > 0 && (
+            <ExportMenu
+              options={TRANSCRIPT_EXPORT_FORMATS.map(({ format, label }) => ({ id: format, label }))}
+              onSelect={onExport}
+              title="Export Transcript"
+            />
+          )}
+        </div>
       </div>
       
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {chunks.length === 0 ? (
+      {chaptersByStart.size > 0 && (
+        <div className="px-4 py-2 border-b border-slate-700 flex items-center gap-2 overflow-x-auto">
+          <button
+            onClick={() => setCollapsedChapterIds(collapsedChapterIds.size > 0 ? new Set() : new Set([...chaptersByStart.values()].map(chapter => chapter.id)))}
+            className="shrink-0 text-[11px] text-slate-400 hover:text-slate-200"
+          >
+            {collapsedChapterIds.size > 0 ? 'Expand all' : 'Collapse all'}
+          </button>
+          {[...chaptersByStart.entries()].map(([chunkId, chapter], index) => (
+            <button
+              key={chapter.id}
+              onClick={() => goToChapter(chapter)}
+              className="shrink-0 max-w-[180px] truncate px-2 py-0.5 rounded-full border border-slate-700 text-[11px] text-slate-300 hover:bg-slate-700 transition-colors"
+              title={`${formatTimestamp(sortedChunks.find(chunk => chunk.id === chunkId)?.timestamp ?? 0)} · ${chapter.summary || chapter.title}`}
+            >
+              {index + 1}. {chapter.title}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {rows.length === 0 ? (
           <div className="h-full flex flex-col items-center justify-center text-slate-500 italic">
             <p>Start recording to see transcript...</p>
           </div>
         ) : (
-          chunks.map((chunk) => (
-            <div key={chunk.id} className="animate-in fade-in slide-in-from-bottom-2 duration-500 group">
+          rows.map((row, rowIndex) => {
+            const startsChapter = row.kind === 'chunk' ? chaptersByStart.get(row.chunk.id) : undefined;
+            const chapter = row.kind === 'chunk' ? chunkChapters.get(row.chunk.id) : undefined;
+            const isCollapsed = !!chapter && collapsedChapterIds.has(chapter.id);
+            return (
+            <React.Fragment key={row.kind === 'chunk' ? row.chunk.id : `pending-${row.pending.sequence}`}>
+            {startsChapter && (
+              <ChapterHeader
+                chapter={startsChapter}
+                startLabel={formatTimestamp(row.timestamp)}
+                size={chapterSizes.get(startsChapter.id) ?? 0}
+                isCollapsed={collapsedChapterIds.has(startsChapter.id)}
+                onToggle={() => setChapterCollapsed(startsChapter.id, !collapsedChapterIds.has(startsChapter.id))}
+              />
+            )}
+            {!isCollapsed && (
+            <div
+              data-chunk-id={row.kind === 'chunk' ? row.chunk.id : undefined}
+              className={`animate-in fade-in slide-in-from-bottom-2 duration-500 group rounded-md transition-colors ${
+                row.kind === 'chunk' && row.chunk.id === highlightedChunkId ? 'bg-blue-500/15 ring-1 ring-blue-500/40' : ''
+              }`}
+            >
                <div className="flex gap-3">
-                 <span className="text-slate-500 text-[10px] font-mono mt-1 shrink-0 select-none opacity-50 group-hover:opacity-100 transition-opacity">
-                   {new Date(chunk.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
-                 </span>
-                 <div className="flex-1">
-                   <TranscriptItem text={chunk.text} />
+                 <div className="flex flex-col items-start gap-1 mt-1 shrink-0 select-none">
+                   {row.kind === 'chunk' && playback?.canPlay(row.chunk) ? (
+                     <button
+                       onClick={() => playback.onToggle(row.chunk, rows.slice(rowIndex + 1).find(next => next.kind === 'chunk')?.timestamp)}
+                       className={`flex items-center gap-1 text-[10px] font-mono transition-colors ${
+                         playback.playingChunkId === row.chunk.id ? 'text-blue-400' : 'text-slate-500 opacity-50 group-hover:opacity-100 hover:text-slate-200'
+                       }`}
+                       title={playback.playingChunkId === row.chunk.id ? "Stop Playback" : "Play Audio"}
+                     >
+                       {playback.playingChunkId === row.chunk.id ? (
+                         <svg xmlns="http://www.w3.org/2000/svg" width="9" height="9" viewBox="0 0 24 24" fill="currentColor"><rect x="5" y="5" width="14" height="14" rx="1"/></svg>
+                       ) : (
+                         <svg xmlns="http://www.w3.org/2000/svg" width="9" height="9" viewBox="0 0 24 24" fill="currentColor"><polygon points="6 4 20 12 6 20 6 4"/></svg>
+                       )}
+                       {formatTimestamp(row.timestamp)}
+                     </button>
+                   ) : (
+                     <span className="text-slate-500 text-[10px] font-mono opacity-50 group-hover:opacity-100 transition-opacity">
+                       {formatTimestamp(row.timestamp)}
+                     </span>
+                   )}
+                   {targetLanguage && row.kind === 'chunk' && row.chunk.sourceLanguage && (
+                     <span
+                       className="text-[9px] font-mono uppercase px-1 rounded border border-slate-700 text-slate-400"
+                       title={`Spoken in ${languageName(row.chunk.sourceLanguage)}`}
+                     >
+                       {row.chunk.sourceLanguage}
+                     </span>
+                   )}
+                 </div>
+                 <div className="flex-1 min-w-0">
+                   {row.kind === 'chunk' && editing && editingChunkId === row.chunk.id ? (
+                     <ChunkEditor
+                       text={row.chunk.text}
+                       onSave={text => { editing.onEdit(row.chunk.id, text); setEditingChunkId(null); }}
+                       onSplit={offset => { editing.onSplit(row.chunk.id, offset); setEditingChunkId(null); }}
+                       onCancel={() => setEditingChunkId(null)}
+                     />
+                   ) : row.kind === 'chunk' ? (
+                     <>
+                       <ChunkText
+                         chunk={row.chunk}
+                         view={view}
+                         targetLanguage={targetLanguage}
+                         isTranslating={row.chunk.id === translatingChunkId}
+                         speakers={speakerActions}
+                         search={isSearchOpen && searchQuery.trim()
+                           ? { query: searchQuery, activeIndex: currentMatch?.chunkId === row.chunk.id ? currentMatch.index : -1 }
+                           : undefined}
+                       />
+                       {row.chunk.originalText !== undefined && (
+                         <div className="mt-1 text-[11px]">
+                           <button onClick={() => toggleAudit(row.chunk.id)} className="text-slate-500 hover:text-slate-300 italic">
+                             Edited{row.chunk.editedAt ? ` ${new Date(row.chunk.editedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}` : ''} · {auditChunkIds.has(row.chunk.id) ? 'hide original' : 'show original'}
+                           </button>
+                           {auditChunkIds.has(row.chunk.id) && (
+                             <p className="mt-1 pl-2 border-l-2 border-slate-700 text-slate-500 whitespace-pre-wrap">{row.chunk.originalText}</p>
+                           )}
+                         </div>
+                       )}
+                     </>
+                   ) : (
+                     <PendingItem
+                       pending={row.pending}
+                       onRetry={onRetryChunk ? () => onRetryChunk(row.pending.sequence) : undefined}
+                     />
+                   )}
                  </div>
+                 {row.kind === 'chunk' && editing && editingChunkId !== row.chunk.id && (
+                   <div className="flex flex-col gap-0.5 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                     <button
+                       onClick={() => setEditingChunkId(row.chunk.id)}
+                       className="p-1 text-slate-500 hover:text-slate-200"
+                       title="Edit Text"
+                     >
+                       <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/></svg>
+                     </button>
+                     {rows.slice(rowIndex + 1).some(next => next.kind === 'chunk') && (
+                       <button
+                         onClick={() => editing.onMergeWithNext(row.chunk.id)}
+                         className="p-1 text-slate-500 hover:text-slate-200"
+                         title="Merge with Next Chunk"
+                       >
+                         <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m7 6 5 5 5-5"/><path d="m7 13 5 5 5-5"/></svg>
+                       </button>
+                     )}
+                     <button
+                       onClick={() => editing.onDelete(row.chunk.id)}
+                       className="p-1 text-slate-500 hover:text-red-400"
+                       title="Delete Chunk"
+                     >
+                       <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
+                     </button>
+                   </div>
+                 )}
                </div>
             </div>
-          ))
+            )}
+            </React.Fragment>
+            );
+          })
         )}
         <div ref={bottomRef} />
       </div>
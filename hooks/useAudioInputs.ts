@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AudioGains, AudioSourceKind } from './useAudioRecorder';
+
+const MIC_DEVICE_STORAGE_KEY = 'micDeviceId';
+const GAINS_STORAGE_KEY = 'audioGains';
+
+const DEFAULT_GAINS: AudioGains = { mic: 1, system: 1 };
+
+const loadGains = (): AudioGains => {
+  try {
+    const saved = localStorage.getItem(GAINS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_GAINS, ...JSON.parse(saved) } : DEFAULT_GAINS;
+  } catch {
+    return DEFAULT_GAINS;
+  }
+};
+
+/**
+ * Available microphones plus the chosen mic and per-source gains, remembered across reloads.
+ * Browsers only reveal device labels once microphone access was granted, so call refreshDevices
+ * after recording starts.
+ */
+export const useAudioInputs = () => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  // Empty means the browser's default microphone
+  const [micDeviceId, setMicDeviceId] = useState(() => localStorage.getItem(MIC_DEVICE_STORAGE_KEY) ?? '');
+  const [gains, setGains] = useState<AudioGains>(loadGains);
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      setDevices(all.filter(device => device.kind === 'audioinput' && device.deviceId !== 'default'));
+    } catch (error) {
+      console.warn("Could not list audio devices:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  const selectMic = (deviceId: string) => {
+    setMicDeviceId(deviceId);
+    if (deviceId) localStorage.setItem(MIC_DEVICE_STORAGE_KEY, deviceId);
+    else localStorage.removeItem(MIC_DEVICE_STORAGE_KEY);
+  };
+
+  const setGain = (source: AudioSourceKind, value: number) => {
+    setGains(prev => {
+      const next = { ...prev, [source]: value };
+      localStorage.setItem(GAINS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  return { devices, micDeviceId, selectMic, gains, setGain, refreshDevices };
+};
@@ -1,30 +1,104 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { RecordingState } from '../types';
 
+export interface VadOptions {
+  enabled?: boolean; // When false, segments are cut every chunkInterval instead
+  silenceThreshold?: number; // RMS level (0-1) below which audio counts as silence
+  minSilenceMs?: number; // Pause length that closes a segment
+  minSegmentMs?: number; // Segments are never closed at a pause before this
+  maxSegmentMs?: number; // Segments are force-closed here even mid-speech
+  minSpeechMs?: number; // Segments with less voiced audio than this are skipped as silence
+}
+
+const DEFAULT_VAD: Required<VadOptions> = {
+  enabled: true,
+  silenceThreshold: 0.01,
+  minSilenceMs: 600,
+  minSegmentMs: 4000,
+  maxSegmentMs: 15000,
+  minSpeechMs: 250
+};
+
+export type AudioSourceKind = 'mic' | 'system';
+export type AudioGains = Record<AudioSourceKind, number>; // Linear gain, 1 = unchanged
+export type AudioLevels = Record<AudioSourceKind, number | null>; // RMS after gain; null when the source isn't captured
+
+// Background tabs throttle intervals to ~1s; elapsed time is measured, so the VAD just gets coarser
+const VAD_POLL_MS = 100;
+
 interface UseAudioRecorderProps {
-  onAudioChunk: (blob: Blob) => void;
+  // startedAt: wall-clock ms when the segment began; overlapsPrevious: it began before the previous segment stopped
+  onAudioChunk: (blob: Blob, startedAt: number, overlapsPrevious: boolean) => void;
   onError: (message: string, type?: 'error' | 'info') => void;
-  chunkInterval?: number; // ms
+  chunkInterval?: number; // ms, used when VAD is disabled
+  overlapMs?: number; // How long consecutive segments record simultaneously, so boundary words land in both
   enableSystemAudio?: boolean;
+  micDeviceId?: string; // Empty uses the browser's default microphone
+  gains?: AudioGains;
+  vad?: VadOptions;
 }
 
+interface Segment {
+  recorder: MediaRecorder;
+  startedAt: number;
+  voicedMs: number;
+  silenceMs: number; // Current run of consecutive silence
+  skip: boolean; // Pure silence; don't emit
+}
+
+const readLevel = (analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>) => {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  return Math.sqrt(sum / buffer.length);
+};
+
 export const useAudioRecorder = ({ 
   onAudioChunk, 
   onError, 
   chunkInterval = 5000,
-  enableSystemAudio = true 
+  overlapMs = 0,
+  enableSystemAudio = true,
+  micDeviceId = '',
+  gains = { mic: 1, system: 1 },
+  vad
 }: UseAudioRecorderProps) => {
+  const vadConfig = { ...DEFAULT_VAD, ...vad };
+  // stop/pause are stable callbacks, so they read the latest config through a ref
+  const vadConfigRef = useRef(vadConfig);
+  vadConfigRef.current = vadConfig;
   const [recordingState, setRecordingState] = useState<RecordingState>(RecordingState.IDLE);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  // With overlap, the outgoing and incoming segment recorders briefly run together
+  const activeRecordersRef = useRef<Set<MediaRecorder>>(new Set());
   const audioContextRef = useRef<AudioContext | null>(null);
   const streamTracksRef = useRef<MediaStreamTrack[]>([]);
   const isRecordingRef = useRef<boolean>(false);
+  const isPausedRef = useRef<boolean>(false);
+  const segmentTimersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  const currentSegmentRef = useRef<Segment | null>(null);
+  const vadTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Set once the mix graph is built so resume can start new segments on the same stream
+  const recordSegmentRef = useRef<(() => void) | null>(null);
+  // Per-source gain and level taps in the mix graph, so gains can change mid-recording
+  const gainNodesRef = useRef<Partial<Record<AudioSourceKind, GainNode>>>({});
+  const levelAnalysersRef = useRef<Partial<Record<AudioSourceKind, AnalyserNode>>>({});
+  const gainsRef = useRef(gains);
+  gainsRef.current = gains;
+
+  useEffect(() => {
+    const context = audioContextRef.current;
+    (Object.keys(gainNodesRef.current) as AudioSourceKind[]).forEach(source => {
+      const node = gainNodesRef.current[source];
+      if (node && context) node.gain.setTargetAtTime(gains[source], context.currentTime, 0.05);
+    });
+  }, [gains.mic, gains.system]);
 
   const startChunkLoop = useCallback(async () => {
      if (isRecordingRef.current) return;
 
      try {
        isRecordingRef.current = true;
+       isPausedRef.current = false;
        setRecordingState(RecordingState.RECORDING);
 
        let screenStream: MediaStream | null = null;
@@ -80,12 +154,23 @@ export const useAudioRecorder = ({
 
        // 2. Get Microphone Audio (User voice)
        let micStream: MediaStream | null = null;
+       const micConstraints = { echoCancellation: true, noiseSuppression: true };
        try {
          micStream = await navigator.mediaDevices.getUserMedia({ 
-           audio: { echoCancellation: true, noiseSuppression: true } 
+           audio: micDeviceId ? { ...micConstraints, deviceId: { exact: micDeviceId } } : micConstraints
          });
-       } catch (micErr) {
-         console.warn("Microphone access denied or failed.", micErr);
+       } catch (micErr: any) {
+         if (micDeviceId && (micErr?.name === 'OverconstrainedError' || micErr?.name === 'NotFoundError')) {
+           // The remembered device was unplugged; fall back to the default one
+           try {
+             micStream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints });
+             onError("Selected microphone not found. Using the default microphone.", 'info');
+           } catch (fallbackErr) {
+             console.warn("Microphone access denied or failed.", fallbackErr);
+           }
+         } else {
+           console.warn("Microphone access denied or failed.", micErr);
+         }
        }
 
        // If we have neither, we can't record
@@ -100,17 +185,32 @@ export const useAudioRecorder = ({
        audioContextRef.current = audioContext;
        
        const dest = audioContext.createMediaStreamDestination();
+       // Taps the same mix the recorder hears, for voice activity detection
+       const analyser = audioContext.createAnalyser();
+       analyser.fftSize = 2048;
        
+       // Each source goes through its own gain, then into the mix and its own level meter
+       const addToMix = (source: AudioSourceKind, stream: MediaStream) => {
+         const gain = audioContext.createGain();
+         gain.gain.value = gainsRef.current[source];
+         const meter = audioContext.createAnalyser();
+         meter.fftSize = 1024;
+         audioContext.createMediaStreamSource(stream).connect(gain);
+         gain.connect(dest);
+         gain.connect(analyser);
+         gain.connect(meter);
+         gainNodesRef.current[source] = gain;
+         levelAnalysersRef.current[source] = meter;
+       };
+
        // Add Screen Audio to Mix
        if (screenStream && usingScreenAudio) {
-         const screenSource = audioContext.createMediaStreamSource(screenStream);
-         screenSource.connect(dest);
+         addToMix('system', screenStream);
        }
 
        // Add Mic Audio to Mix (if available)
        if (micStream) {
-         const micSource = audioContext.createMediaStreamSource(micStream);
-         micSource.connect(dest);
+         addToMix('mic', micStream);
        }
 
        // Keep track of all tracks to stop them later
@@ -122,8 +222,8 @@ export const useAudioRecorder = ({
        const mixedStream = dest.stream;
 
        // 4. Start Recording Logic
-       const recordSegment = () => {
-         if (!isRecordingRef.current) return;
+       const recordSegment = (overlapsPrevious = false) => {
+         if (!isRecordingRef.current || isPausedRef.current) return;
          if (audioContext.state === 'closed') return; 
          
          let mimeType = 'audio/webm';
@@ -135,51 +235,129 @@ export const useAudioRecorder = ({
          
          const recorder = new MediaRecorder(mixedStream, { mimeType });
          const chunks: Blob[] = [];
+         const segment: Segment = { recorder, startedAt: performance.now(), voicedMs: 0, silenceMs: 0, skip: false };
+         const segmentStartedAt = Date.now();
          
          recorder.ondataavailable = (e) => {
            if (e.data.size > 0) chunks.push(e.data);
          };
 
          recorder.onstop = () => {
+           activeRecordersRef.current.delete(recorder);
            const blob = new Blob(chunks, { type: mimeType });
-           if (blob.size > 0) {
-              onAudioChunk(blob);
+           if (blob.size > 0 && !segment.skip) {
+              onAudioChunk(blob, segmentStartedAt, overlapsPrevious);
            }
          };
          
          recorder.start();
+         activeRecordersRef.current.add(recorder);
+         currentSegmentRef.current = segment;
          
-         // Schedule next chunk
-         setTimeout(() => {
-           if (recorder.state === 'recording') {
-             recorder.stop();
-             // Check if we should continue
-             if (isRecordingRef.current) { 
-                recordSegment();
-             }
+         // With VAD on, the analyser loop decides when this segment ends
+         if (vadConfig.enabled) return;
+
+         // Schedule next chunk; it starts overlapMs before this one stops
+         scheduleSegmentTimer(() => {
+           // Check if we should continue
+           if (isRecordingRef.current && !isPausedRef.current) { 
+              recordSegment(overlapMs > 0);
            }
          }, chunkInterval);
-         
-         mediaRecorderRef.current = recorder; 
+         scheduleSegmentTimer(() => {
+           if (recorder.state === 'recording') recorder.stop();
+         }, chunkInterval + overlapMs);
        };
 
+       recordSegmentRef.current = () => recordSegment();
        recordSegment();
 
+       // 5. Voice activity loop: close segments at natural pauses, between min and max duration
+       if (vadConfig.enabled) {
+         const levelBuffer = new Float32Array(analyser.fftSize);
+         let lastTick = performance.now();
+
+         vadTimerRef.current = setInterval(() => {
+           const now = performance.now();
+           const elapsedTick = now - lastTick;
+           lastTick = now;
+
+           const segment = currentSegmentRef.current;
+           if (!segment || isPausedRef.current || !isRecordingRef.current) return;
+
+           if (readLevel(analyser, levelBuffer) >= vadConfig.silenceThreshold) {
+             segment.voicedMs += elapsedTick;
+             segment.silenceMs = 0;
+           } else {
+             segment.silenceMs += elapsedTick;
+           }
+
+           const duration = now - segment.startedAt;
+           const atPause = duration >= vadConfig.minSegmentMs
+             && segment.silenceMs >= vadConfig.minSilenceMs
+             && segment.voicedMs > 0;
+           const atMax = duration >= vadConfig.maxSegmentMs;
+           if (!atPause && !atMax) return;
+
+           segment.skip = segment.voicedMs < vadConfig.minSpeechMs;
+           recordSegment(!atPause && !segment.skip && overlapMs > 0);
+
+           // A cut at a pause has nothing to overlap; a forced cut mid-speech keeps the overlap margin
+           if (atPause || segment.skip) {
+             if (segment.recorder.state === 'recording') segment.recorder.stop();
+           } else {
+             scheduleSegmentTimer(() => {
+               if (segment.recorder.state === 'recording') segment.recorder.stop();
+             }, overlapMs);
+           }
+         }, VAD_POLL_MS);
+       }
+
      } catch (err: any) {
        console.error("Error starting recording:", err);
        onError(`Failed to start recording: ${err.message}`, 'error');
        stopRecording();
      }
-  }, [chunkInterval, onAudioChunk, onError, enableSystemAudio]);
+  }, [chunkInterval, overlapMs, onAudioChunk, onError, enableSystemAudio, micDeviceId, vadConfig.enabled, vadConfig.silenceThreshold, vadConfig.minSilenceMs, vadConfig.minSegmentMs, vadConfig.maxSegmentMs, vadConfig.minSpeechMs]);
+
+  const scheduleSegmentTimer = (callback: () => void, delay: number) => {
+    const timer = setTimeout(() => {
+      segmentTimersRef.current.delete(timer);
+      callback();
+    }, delay);
+    segmentTimersRef.current.add(timer);
+  };
+
+  const clearSegmentTimers = () => {
+    segmentTimersRef.current.forEach(timer => clearTimeout(timer));
+    segmentTimersRef.current.clear();
+  };
+
+  // Stopping flushes each recorder's data to onAudioChunk via its onstop handler
+  const stopActiveRecorders = () => {
+    const current = currentSegmentRef.current;
+    if (current && vadConfigRef.current.enabled && current.voicedMs < vadConfigRef.current.minSpeechMs) {
+      current.skip = true;
+    }
+    currentSegmentRef.current = null;
+    activeRecordersRef.current.forEach(recorder => {
+      if (recorder.state === 'recording') recorder.stop();
+    });
+    activeRecordersRef.current.clear();
+  };
 
   const stopRecording = useCallback(() => {
     isRecordingRef.current = false;
-
-    // Stop Recorder
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-      mediaRecorderRef.current.stop();
+    isPausedRef.current = false;
+    recordSegmentRef.current = null;
+    clearSegmentTimers();
+    if (vadTimerRef.current) {
+      clearInterval(vadTimerRef.current);
+      vadTimerRef.current = null;
     }
-    mediaRecorderRef.current = null;
+
+    // Stop Recorders
+    stopActiveRecorders();
 
     // Stop all raw media tracks (Screen + Mic)
     if (streamTracksRef.current) {
@@ -188,6 +366,8 @@ export const useAudioRecorder = ({
     }
 
     // Close AudioContext
+    gainNodesRef.current = {};
+    levelAnalysersRef.current = {};
     if (audioContextRef.current) {
       audioContextRef.current.close();
       audioContextRef.current = null;
@@ -196,9 +376,43 @@ export const useAudioRecorder = ({
     setRecordingState(RecordingState.IDLE);
   }, []);
 
+  /**
+   * Stops emitting chunks but keeps the screen share, mic and AudioContext mix alive.
+   * The in-flight segment is flushed to onAudioChunk so nothing said before the pause is lost.
+   */
+  const pauseRecording = useCallback(() => {
+    if (!isRecordingRef.current || isPausedRef.current) return;
+    isPausedRef.current = true;
+    clearSegmentTimers();
+    stopActiveRecorders();
+
+    setRecordingState(RecordingState.PAUSED);
+  }, []);
+
+  const resumeRecording = useCallback(() => {
+    if (!isRecordingRef.current || !isPausedRef.current) return;
+    isPausedRef.current = false;
+    setRecordingState(RecordingState.RECORDING);
+    recordSegmentRef.current?.();
+  }, []);
+
+  /**
+   * Current level of each source, for meters. Cheap enough to poll every animation frame.
+   */
+  const readLevels = useCallback((): AudioLevels => {
+    const level = (source: AudioSourceKind) => {
+      const meter = levelAnalysersRef.current[source];
+      return meter ? readLevel(meter, new Float32Array(meter.fftSize)) : null;
+    };
+    return { mic: level('mic'), system: level('system') };
+  }, []);
+
   return {
     recordingState,
+    readLevels,
     startRecording: startChunkLoop,
-    stopRecording
+    stopRecording,
+    pauseRecording,
+    resumeRecording
   };
 };
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { useState, useRef, useCallback } from 'react';
+import { PendingChunk } from '../types';
+import { withRetry } from '../services/retry';
+
+interface QueueEntry extends PendingChunk {
+  blob: Blob;
+}
+
+interface UseChunkQueueProps {
+  transcribe: (blob: Blob) => Promise<string>;
+  // Called in capture order; a chunk retried after failing is committed whenever it succeeds
+  onCommit: (text: string, entry: PendingChunk) => void;
+  onFailure?: (error: any, entry: PendingChunk) => void;
+  concurrency?: number;
+  maxRetries?: number;
+}
+
+/**
+ * Transcribes audio chunks with bounded concurrency and commits results strictly in capture order.
+ * Retryable errors (429/5xx) back off exponentially; chunks that still fail stay visible for manual retry
+ * and stop blocking later chunks.
+ */
+export const useChunkQueue = ({
+  transcribe,
+  onCommit,
+  onFailure,
+  concurrency = 2,
+  maxRetries = 4
+}: UseChunkQueueProps) => {
+  const [pendingChunks, setPendingChunks] = useState<PendingChunk[]>([]);
+
+  const entriesRef = useRef<Map<number, QueueEntry>>(new Map());
+  const waitingRef = useRef<number[]>([]);
+  const activeCountRef = useRef(0);
+  const nextSequenceRef = useRef(0);
+  const nextCommitRef = useRef(0);
+  // Finished results waiting for earlier sequences; null marks a chunk that failed
+  const resultsRef = useRef<Map<number, string | null>>(new Map());
+  // Bumped by reset() so results from abandoned work are ignored
+  const generationRef = useRef(0);
+
+  // Latest callbacks, so queued work never calls a stale closure
+  const callbacksRef = useRef({ transcribe, onCommit, onFailure });
+  callbacksRef.current = { transcribe, onCommit, onFailure };
+
+  const publish = () => {
+    const entries = [...entriesRef.current.values()]
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(({ blob, ...entry }) => entry);
+    setPendingChunks(entries);
+  };
+
+  const updateEntry = (sequence: number, changes: Partial<QueueEntry>) => {
+    const entry = entriesRef.current.get(sequence);
+    if (!entry) return;
+    entriesRef.current.set(sequence, { ...entry, ...changes });
+    publish();
+  };
+
+  const flushCommits = () => {
+    while (resultsRef.current.has(nextCommitRef.current)) {
+      const sequence = nextCommitRef.current;
+      const text = resultsRef.current.get(sequence);
+      resultsRef.current.delete(sequence);
+      nextCommitRef.current += 1;
+
+      if (text === null || text === undefined) continue; // Failed; stays listed for manual retry
+      const entry = entriesRef.current.get(sequence);
+      entriesRef.current.delete(sequence);
+      if (entry && text) {
+        const { blob, ...pending } = entry;
+        callbacksRef.current.onCommit(text, pending);
+      }
+    }
+    publish();
+  };
+
+  const run = async (sequence: number) => {
+    const generation = generationRef.current;
+    const entry = entriesRef.current.get(sequence);
+    if (!entry) return;
+
+    activeCountRef.current += 1;
+    updateEntry(sequence, { status: 'pending', error: undefined });
+
+    try {
+      const text = await withRetry(() => callbacksRef.current.transcribe(entry.blob), {
+        maxRetries,
+        shouldContinue: () => generation === generationRef.current,
+        onRetry: (attempt, error: any) => {
+          if (generation !== generationRef.current) return;
+          updateEntry(sequence, { status: 'retrying', attempts: attempt, error: error?.message });
+        }
+      });
+      if (generation !== generationRef.current) return;
+
+      if (sequence < nextCommitRef.current) {
+        // Manual retry of a chunk the commit pointer already skipped
+        entriesRef.current.delete(sequence);
+        if (text) callbacksRef.current.onCommit(text, { ...entry, status: 'pending' });
+        publish();
+      } else {
+        resultsRef.current.set(sequence, text);
+        flushCommits();
+      }
+    } catch (error: any) {
+      if (generation !== generationRef.current) return;
+      console.warn("Chunk processing failed:", error);
+      updateEntry(sequence, { status: 'failed', error: error?.message || "Transcription failed." });
+      callbacksRef.current.onFailure?.(error, entry);
+      if (sequence >= nextCommitRef.current) {
+        resultsRef.current.set(sequence, null);
+        flushCommits();
+      }
+    } finally {
+      if (generation === generationRef.current) {
+        activeCountRef.current -= 1;
+        pump();
+      }
+    }
+  };
+
+  const pump = () => {
+    while (activeCountRef.current < concurrency && waitingRef.current.length > 0) {
+      run(waitingRef.current.shift()!);
+    }
+  };
+
+  // Returns the chunk's sequence number, which stays stable through retries
+  const enqueue = useCallback((blob: Blob, timestamp: number = Date.now(), overlapsPrevious = false, sessionEpoch?: number) => {
+    const sequence = nextSequenceRef.current++;
+    entriesRef.current.set(sequence, { sequence, timestamp, blob, status: 'pending', attempts: 0, overlapsPrevious, sessionEpoch });
+    waitingRef.current.push(sequence);
+    publish();
+    pump();
+    return sequence;
+  }, []);
+
+  const retry = useCallback((sequence: number) => {
+    const entry = entriesRef.current.get(sequence);
+    if (!entry || entry.status !== 'failed') return;
+    updateEntry(sequence, { status: 'pending', attempts: 0, error: undefined });
+    waitingRef.current.push(sequence);
+    pump();
+  }, []);
+
+  const reset = useCallback(() => {
+    generationRef.current += 1;
+    entriesRef.current.clear();
+    waitingRef.current = [];
+    resultsRef.current.clear();
+    activeCountRef.current = 0;
+    nextSequenceRef.current = 0;
+    nextCommitRef.current = 0;
+    setPendingChunks([]);
+  }, []);
+
+  return {
+    pendingChunks,
+    enqueue,
+    retry,
+    reset
+  };
+};
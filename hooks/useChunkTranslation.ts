@@ -0,0 +1,61 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TranscriptChunk, TranslationResult } from '../types';
+import { needsTranslation } from '../services/translation';
+import { withRetry } from '../services/retry';
+
+interface UseChunkTranslationProps {
+  chunks: TranscriptChunk[];
+  setChunks: React.Dispatch<React.SetStateAction<TranscriptChunk[]>>;
+  targetLanguage: string; // Empty when the session isn't translated
+  translate: (text: string, targetLanguage: string) => Promise<TranslationResult>;
+  onError: (message: string) => void;
+}
+
+/**
+ * Translates transcript chunks into the target language one at a time, in transcript order, as they
+ * are committed or edited. Results are dropped if the chunk's text or the target language changed
+ * while the request was in flight; the chunk is then picked up again.
+ */
+export const useChunkTranslation = ({ chunks, setChunks, targetLanguage, translate, onError }: UseChunkTranslationProps) => {
+  const [activeChunkId, setActiveChunkId] = useState<string | null>(null);
+  // Chunk text that failed to translate, skipped until the target language changes
+  const failedRef = useRef(new Map<string, string>());
+
+  // Latest callbacks, so a slow request never calls a stale closure
+  const callbacksRef = useRef({ translate, onError });
+  callbacksRef.current = { translate, onError };
+  const targetLanguageRef = useRef(targetLanguage);
+  targetLanguageRef.current = targetLanguage;
+
+  useEffect(() => {
+    failedRef.current.clear();
+  }, [targetLanguage]);
+
+  useEffect(() => {
+    if (activeChunkId || !targetLanguage) return;
+    const chunk = chunks.find(candidate =>
+      needsTranslation(candidate, targetLanguage) && failedRef.current.get(candidate.id) !== candidate.text
+    );
+    if (!chunk) return;
+
+    const { id, text } = chunk;
+    setActiveChunkId(id);
+    withRetry(() => callbacksRef.current.translate(text, targetLanguage))
+      .then(result => {
+        if (targetLanguageRef.current !== targetLanguage) return;
+        setChunks(prev => prev.map(current => current.id === id && current.text === text
+          ? { ...current, translatedText: result.text, translatedTo: targetLanguage, sourceLanguage: result.sourceLanguage || current.sourceLanguage }
+          : current
+        ));
+      })
+      .catch((error: any) => {
+        if (targetLanguageRef.current !== targetLanguage) return;
+        // Report once per streak of failures, not for every chunk behind it
+        if (failedRef.current.size === 0) callbacksRef.current.onError(error.message || "Translation failed.");
+        failedRef.current.set(id, text);
+      })
+      .finally(() => setActiveChunkId(null));
+  }, [chunks, targetLanguage, activeChunkId, setChunks]);
+
+  return { translatingChunkId: activeChunkId };
+};
@@ -0,0 +1,75 @@
+import { useState, useRef, useCallback } from 'react';
+import { Message } from '../types';
+
+interface UseMeetingChatProps {
+  ask: (history: Message[], context: string) => AsyncIterable<string>;
+  // Read at question time so answers see the transcript as it is now
+  getContext: () => string;
+  onError: (message: string) => void;
+}
+
+/**
+ * Multi-turn Q&A about the current session. The model's answer is appended to the history as it streams.
+ * A failed exchange is dropped from the history so the next question starts from a clean turn.
+ */
+export const useMeetingChat = ({ ask, getContext, onError }: UseMeetingChatProps) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  const messagesRef = useRef<Message[]>([]);
+  // Bumped by stop()/reset() so an abandoned stream stops writing into the history
+  const generationRef = useRef(0);
+
+  // Latest callbacks, so a long stream never calls a stale closure
+  const callbacksRef = useRef({ ask, getContext, onError });
+  callbacksRef.current = { ask, getContext, onError };
+
+  const publish = (next: Message[]) => {
+    messagesRef.current = next;
+    setMessages(next);
+  };
+
+  const sendMessage = useCallback(async (text: string) => {
+    const question = text.trim();
+    if (!question) return;
+
+    const generation = ++generationRef.current;
+    const history: Message[] = [...messagesRef.current, { role: 'user', text: question }];
+    publish([...history, { role: 'model', text: '' }]);
+    setIsStreaming(true);
+
+    let answer = '';
+    try {
+      for await (const piece of callbacksRef.current.ask(history, callbacksRef.current.getContext())) {
+        if (generation !== generationRef.current) return;
+        answer += piece;
+        publish([...history, { role: 'model', text: answer }]);
+      }
+      if (generation === generationRef.current && !answer.trim()) {
+        publish([...history, { role: 'model', text: "I couldn't find an answer to that in the transcript." }]);
+      }
+    } catch (err: any) {
+      if (generation !== generationRef.current) return;
+      publish(history.slice(0, -1));
+      callbacksRef.current.onError(err?.message || "Could not answer the question.");
+    } finally {
+      if (generation === generationRef.current) setIsStreaming(false);
+    }
+  }, []);
+
+  // Keeps whatever has streamed so far as the answer, or drops the question if nothing arrived yet
+  const stop = useCallback(() => {
+    generationRef.current += 1;
+    const last = messagesRef.current[messagesRef.current.length - 1];
+    if (last?.role === 'model' && !last.text) publish(messagesRef.current.slice(0, -2));
+    setIsStreaming(false);
+  }, []);
+
+  const reset = useCallback(() => {
+    generationRef.current += 1;
+    publish([]);
+    setIsStreaming(false);
+  }, []);
+
+  return { messages, isStreaming, sendMessage, stop, reset };
+};
@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { SessionAudioSegment, TranscriptChunk } from '../types';
+import { listAudioSegments, saveAudioSegment } from '../services/sessionStore';
+import { findChunkAudio, buildFullRecording, audioExtension } from '../services/sessionAudio';
+import { downloadFile, fileTimestamp, slugify } from '../services/download';
+
+interface UseSessionAudioProps {
+  sessionId: string | null;
+  onError: (message: string) => void;
+}
+
+const byStart = (a: SessionAudioSegment, b: SessionAudioSegment) => a.startedAt - b.startedAt;
+
+/**
+ * Keeps the active session's audio segments, stored in IndexedDB as they're recorded, and plays
+ * back the audio behind a transcript chunk.
+ */
+export const useSessionAudio = ({ sessionId, onError }: UseSessionAudioProps) => {
+  const [segments, setSegments] = useState<SessionAudioSegment[]>([]);
+  const [playingChunkId, setPlayingChunkId] = useState<string | null>(null);
+  const [isPreparingDownload, setIsPreparingDownload] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+  // Segments arrive from recorder callbacks, which may outlive the render that created them
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
+  const storageFailedRef = useRef(false);
+
+  const stop = useCallback(() => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    if (urlRef.current) {
+      URL.revokeObjectURL(urlRef.current);
+      urlRef.current = null;
+    }
+    setPlayingChunkId(null);
+  }, []);
+
+  useEffect(() => {
+    stop();
+    storageFailedRef.current = false;
+    setSegments(prev => prev.filter(segment => segment.sessionId === sessionId));
+    if (!sessionId) return;
+
+    let cancelled = false;
+    listAudioSegments(sessionId)
+      .then(stored => {
+        if (cancelled) return;
+        // Keep segments recorded while the list was loading
+        setSegments(prev => {
+          const storedIds = new Set(stored.map(segment => segment.id));
+          return [...stored, ...prev.filter(segment => !storedIds.has(segment.id))].sort(byStart);
+        });
+      })
+      .catch(err => console.warn("Could not load session audio:", err));
+    return () => { cancelled = true; };
+  }, [sessionId, stop]);
+
+  useEffect(() => stop, [stop]);
+
+  /**
+   * Stores a segment for a session, the active one by default. Ignored when no session is active.
+   */
+  const addSegment = useCallback((id: string, blob: Blob, startedAt: number, forSessionId: string | null = sessionIdRef.current) => {
+    if (!forSessionId) return;
+    const segment: SessionAudioSegment = { id, sessionId: forSessionId, startedAt, blob };
+    setSegments(prev => [...prev.filter(existing => existing.id !== id), segment].sort(byStart));
+    saveAudioSegment(segment).catch(err => {
+      console.warn("Could not store audio segment:", err);
+      // Storage is usually full when this fails, so say it once per session
+      if (storageFailedRef.current) return;
+      storageFailedRef.current = true;
+      onError("Could not store the recording. Playback may be incomplete after a reload.");
+    });
+  }, [onError]);
+
+  const hasAudio = useCallback((chunk: TranscriptChunk) => !!findChunkAudio(segments, chunk), [segments]);
+
+  /**
+   * Plays the audio behind a chunk, stopping at `untilTimestamp` (the next chunk) when the segment runs
+   * past it. Playing the chunk that's already playing stops it.
+   */
+  const togglePlayback = (chunk: TranscriptChunk, untilTimestamp?: number) => {
+    const wasPlaying = playingChunkId === chunk.id;
+    stop();
+    if (wasPlaying) return;
+
+    const position = findChunkAudio(segments, chunk);
+    if (!position) return;
+
+    const url = URL.createObjectURL(position.segment.blob);
+    const audio = new Audio(url);
+    const startSeconds = position.offsetMs / 1000;
+    const endSeconds = untilTimestamp !== undefined ? startSeconds + (untilTimestamp - chunk.timestamp) / 1000 : Infinity;
+    audioRef.current = audio;
+    urlRef.current = url;
+    setPlayingChunkId(chunk.id);
+
+    audio.onloadedmetadata = () => {
+      if (startSeconds > 0) audio.currentTime = startSeconds;
+    };
+    audio.ontimeupdate = () => {
+      if (audio.currentTime >= endSeconds && audioRef.current === audio) stop();
+    };
+    audio.onended = () => {
+      if (audioRef.current === audio) stop();
+    };
+    audio.play().catch(err => {
+      if (audioRef.current !== audio) return;
+      console.warn("Audio playback failed:", err);
+      onError("Could not play this part of the recording.");
+      stop();
+    });
+  };
+
+  const downloadRecording = async (title: string) => {
+    if (segments.length === 0 || isPreparingDownload) return;
+    setIsPreparingDownload(true);
+    try {
+      const blob = await buildFullRecording(segments);
+      downloadFile(blob, `${slugify(title)}-${fileTimestamp()}.${audioExtension(blob.type)}`, blob.type);
+    } catch (err) {
+      console.error("Could not build recording:", err);
+      onError("Could not prepare the recording for download.");
+    } finally {
+      setIsPreparingDownload(false);
+    }
+  };
+
+  return {
+    hasRecording: segments.length > 0,
+    hasAudio,
+    playingChunkId,
+    togglePlayback,
+    stopPlayback: stop,
+    addSegment,
+    downloadRecording,
+    isPreparingDownload
+  };
+};
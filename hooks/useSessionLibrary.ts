@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Session } from '../types';
+import { listSessions, getSession, saveSession, deleteSession, StorageBlockedError } from '../services/sessionStore';
+
+interface UseSessionLibraryProps {
+  onError: (message: string) => void;
+}
+
+/**
+ * Keeps an in-memory list of saved sessions in sync with IndexedDB.
+ */
+export const useSessionLibrary = ({ onError }: UseSessionLibraryProps) => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSessions()
+      .then(result => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch(err => {
+        console.error("Failed to load sessions:", err);
+        if (!cancelled) onError(err instanceof StorageBlockedError ? err.message : "Could not load saved sessions.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const upsertSession = useCallback(async (session: Session) => {
+    setSessions(prev => {
+      const others = prev.filter(s => s.id !== session.id);
+      return [session, ...others].sort((a, b) => b.startedAt - a.startedAt);
+    });
+    try {
+      await saveSession(session);
+    } catch (err) {
+      console.error("Failed to save session:", err);
+      onError("Could not save session. Changes may be lost on reload.");
+    }
+  }, [onError]);
+
+  const loadSession = useCallback(async (id: string): Promise<Session | null> => {
+    try {
+      return await getSession(id);
+    } catch (err) {
+      console.error("Failed to open session:", err);
+      onError("Could not open session.");
+      return null;
+    }
+  }, [onError]);
+
+  const renameSession = useCallback(async (id: string, title: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session) return;
+    await upsertSession({ ...session, title });
+  }, [sessions, upsertSession]);
+
+  const removeSession = useCallback(async (id: string) => {
+    setSessions(prev => prev.filter(s => s.id !== id));
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.error("Failed to delete session:", err);
+      onError("Could not delete session.");
+    }
+  }, [onError]);
+
+  return {
+    sessions,
+    isLoading,
+    upsertSession,
+    loadSession,
+    renameSession,
+    removeSession
+  };
+};
@@ -0,0 +1,99 @@
+import React, { useState, useCallback } from 'react';
+import { TranscriptChunk } from '../types';
+import {
+  TranscriptPatch,
+  applyPatch,
+  invertPatch,
+  editChunkPatch,
+  splitChunkPatch,
+  mergeChunksPatch,
+  deleteChunkPatch
+} from '../services/transcriptEdits';
+
+interface UseTranscriptEditorProps {
+  chunks: TranscriptChunk[];
+  setChunks: React.Dispatch<React.SetStateAction<TranscriptChunk[]>>;
+  // Called after every edit, undo and redo
+  onEdited: () => void;
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * Manual transcript edits (text, split, merge, delete) with undo/redo. Live transcription keeps
+ * committing chunks meanwhile; edits are replayed by chunk id so the two don't clobber each other.
+ */
+export const useTranscriptEditor = ({ chunks, setChunks, onEdited }: UseTranscriptEditorProps) => {
+  const [undoStack, setUndoStack] = useState<TranscriptPatch[]>([]);
+  const [redoStack, setRedoStack] = useState<TranscriptPatch[]>([]);
+
+  const commit = (patch: TranscriptPatch | null) => {
+    if (!patch) return;
+    setChunks(prev => applyPatch(prev, patch));
+    setUndoStack(prev => [...prev, patch].slice(-MAX_HISTORY));
+    setRedoStack([]);
+    onEdited();
+  };
+
+  const find = (id: string) => {
+    const index = chunks.findIndex(chunk => chunk.id === id);
+    return { chunk: chunks[index], next: chunks[index + 1] };
+  };
+
+  const editChunk = (id: string, text: string) => {
+    const { chunk } = find(id);
+    if (!chunk || chunk.text === text) return;
+    commit(text.trim() ? editChunkPatch(chunk, text) : deleteChunkPatch(chunk));
+  };
+
+  const splitChunk = (id: string, offset: number) => {
+    const { chunk, next } = find(id);
+    if (chunk) commit(splitChunkPatch(chunk, offset, next));
+  };
+
+  const mergeWithNext = (id: string) => {
+    const { chunk, next } = find(id);
+    if (chunk && next) commit(mergeChunksPatch(chunk, next));
+  };
+
+  const deleteChunk = (id: string) => {
+    const { chunk } = find(id);
+    if (chunk) commit(deleteChunkPatch(chunk));
+  };
+
+  const undo = () => {
+    const patch = undoStack[undoStack.length - 1];
+    if (!patch) return;
+    setChunks(prev => applyPatch(prev, invertPatch(patch)));
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, patch]);
+    onEdited();
+  };
+
+  const redo = () => {
+    const patch = redoStack[redoStack.length - 1];
+    if (!patch) return;
+    setChunks(prev => applyPatch(prev, patch));
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, patch]);
+    onEdited();
+  };
+
+  // Edits belong to one session; switching sessions starts a fresh history
+  const resetHistory = useCallback(() => {
+    setUndoStack([]);
+    setRedoStack([]);
+  }, []);
+
+  return {
+    editChunk,
+    splitChunk,
+    mergeWithNext,
+    deleteChunk,
+    undo,
+    redo,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    resetHistory
+  };
+};
@@ -0,0 +1,122 @@
+import { ActionItem, SpeakerRegistry } from "../types";
+import { resolveOwner, sortActionItems } from "./actionItems";
+
+export type ActionItemExportFormat = 'md' | 'csv' | 'ics-todo' | 'ics-event';
+
+export const ACTION_ITEM_EXPORT_FORMATS: { format: ActionItemExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'md', label: 'Markdown checklist', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'csv', label: 'CSV (for trackers)', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'ics-todo', label: 'Calendar tasks (.ics VTODO)', extension: 'ics', mimeType: 'text/calendar' },
+  { format: 'ics-event', label: 'Calendar events (.ics VEVENT)', extension: 'ics', mimeType: 'text/calendar' },
+];
+
+export interface ActionItemExportContext {
+  registry: SpeakerRegistry;
+  meetingTitle: string;
+  meetingStartedAt: number;
+}
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const ownerOf = (item: ActionItem, registry: SpeakerRegistry) => item.owner ? resolveOwner(item.owner, registry) : '';
+
+const toCsv = (tasks: ActionItem[], { registry }: ActionItemExportContext) => {
+  const rows = tasks.map(task => [task.text, ownerOf(task, registry), task.dueDate ?? '', task.done ? 'done' : 'open'].map(csvField).join(','));
+  return ['Task,Owner,Due,Status', ...rows].join('\n') + '\n';
+};
+
+const toMarkdown = (tasks: ActionItem[], { registry }: ActionItemExportContext) =>
+  tasks
+    .map(task => {
+      const owner = ownerOf(task, registry);
+      const details = [owner && `@${owner}`, task.dueDate && `due ${task.dueDate}`].filter(Boolean).join(', ');
+      return `- [${task.done ? 'x' : ' '}] ${task.text}${details ? ` (${details})` : ''}`;
+    })
+    .join('\n') + '\n';
+
+// RFC 5545 TEXT escaping
+const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (isoDate: string) => isoDate.replace(/-/g, '');
+
+const icsTimestamp = (time: number) => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const nextDay = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + 1));
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * iCalendar file with one entry per dated, open task: VTODOs (due that day) for task apps,
+ * or all-day VEVENTs for calendars that ignore VTODO.
+ */
+const toIcs = (tasks: ActionItem[], { registry, meetingTitle, meetingStartedAt }: ActionItemExportContext, component: 'VTODO' | 'VEVENT') => {
+  const stamp = icsTimestamp(Date.now());
+  const entries = tasks
+    .filter(task => task.dueDate && !task.done)
+    .flatMap(task => {
+      const owner = ownerOf(task, registry);
+      const description = [
+        owner && `Owner: ${owner}`,
+        `From "${meetingTitle}" on ${new Date(meetingStartedAt).toLocaleDateString()}`
+      ].filter(Boolean).join('\n');
+      return [
+        `BEGIN:${component}`,
+        `UID:${task.id}-${component.toLowerCase()}@scribo`,
+        `DTSTAMP:${stamp}`,
+        `SUMMARY:${escapeIcsText(owner ? `${task.text} (${owner})` : task.text)}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        ...(component === 'VTODO'
+          ? [`DUE;VALUE=DATE:${icsDate(task.dueDate!)}`, 'STATUS:NEEDS-ACTION']
+          : [`DTSTART;VALUE=DATE:${icsDate(task.dueDate!)}`, `DTEND;VALUE=DATE:${icsDate(nextDay(task.dueDate!))}`, 'TRANSP:TRANSPARENT']),
+        `END:${component}`
+      ];
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Scribo//Meeting Assistant//EN',
+    'CALSCALE:GREGORIAN',
+    ...entries,
+    'END:VCALENDAR'
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Number of tasks an .ics export would contain (open tasks with a due date).
+ */
+export const countCalendarEntries = (items: ActionItem[]) =>
+  sortActionItems(items).filter(task => task.dueDate && !task.done).length;
+
+/**
+ * Serializes the tracked tasks (without dismissed ones) for another tool.
+ */
+export const exportActionItems = (items: ActionItem[], format: ActionItemExportFormat, context: ActionItemExportContext): string => {
+  const tasks = sortActionItems(items);
+  switch (format) {
+    case 'md': return toMarkdown(tasks, context);
+    case 'csv': return toCsv(tasks, context);
+    case 'ics-todo': return toIcs(tasks, context, 'VTODO');
+    case 'ics-event': return toIcs(tasks, context, 'VEVENT');
+  }
+};
@@ -0,0 +1,205 @@
+import { ActionItem, SpeakerRegistry, TranscriptChunk } from "../types";
+import { SPEAKER_LABEL_REGEX, resolveSpeaker } from "./speakers";
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, ten: 10 };
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'will', "i'll", 'can', 'should', 'need', 'needs', 'about', 'from', 'into', 'our', 'their', 'them', 'they', 'you', 'your', 'has', 'have', 'are', 'was', 'were', 'his', 'her', 'its', 'also', 'then', 'than', 'all', 'any', 'some', 'out', 'who']);
+
+// Two tasks whose keyword sets overlap this much are treated as the same task re-worded
+const DUPLICATE_SIMILARITY = 0.6;
+// An item needs this many keywords to match a longer item it's contained in; a single shared word
+// ("Budget?") says nothing about whether two items are the same
+const MIN_SUBSET_KEYWORDS = 2;
+// A chunk must share at least this many keywords with a task to be cited as its source
+const MIN_SOURCE_OVERLAP = 2;
+
+export interface DueDate {
+  date: string; // YYYY-MM-DD
+  phrase: string;
+}
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// The next occurrence of a weekday after the reference day ("by Friday" said on a Friday means next week)
+const nextWeekday = (reference: Date, weekday: number) => addDays(reference, (weekday - reference.getDay() + 7) % 7 || 7);
+
+/**
+ * Finds a deadline phrase ("by Friday", "tomorrow", "by tonight", "end of the week", "by March 3", "in two weeks")
+ * and resolves it relative to when it was said. "Next Friday" resolves like "Friday".
+ */
+export const parseDueDate = (text: string, referenceTime: number): DueDate | null => {
+  const reference = new Date(referenceTime);
+  const lower = text.toLowerCase();
+  const found = (match: RegExpMatchArray, date: Date): DueDate => ({ date: toIsoDate(date), phrase: match[0].trim() });
+
+  // "Today" and "tonight" alone usually just mention the day ("as we said today"), so they need a
+  // deadline preposition; "EOD" and "end of day" are deadlines on their own
+  let match = lower.match(/\b(?:(?:by|before|until|due) (?:today|tonight)|(?:by |before |until |due )?(?:eod|end of (?:the )?day))\b/);
+  if (match) return found(match, reference);
+
+  match = lower.match(/\b(?:by |before |until )?tomorrow\b/);
+  if (match) return found(match, addDays(reference, 1));
+
+  match = lower.match(/\b(?:by |before |until |on |due )?(?:next |this )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/);
+  if (match) return found(match, nextWeekday(reference, WEEKDAYS.indexOf(match[1])));
+
+  match = lower.match(/\b(?:by |before |until )?(?:the )?(?:end of (?:the |this )?week|eow)\b/);
+  if (match) return found(match, reference.getDay() === 5 ? reference : nextWeekday(reference, 5));
+
+  match = lower.match(/\b(?:by |before |until )?(?:the )?end of (?:the |this )?month\b/);
+  if (match) return found(match, new Date(reference.getFullYear(), reference.getMonth() + 1, 0));
+
+  match = lower.match(/\b(?:by |during |sometime )?next week\b/);
+  if (match) return found(match, nextWeekday(reference, 1));
+
+  match = lower.match(/\bin (\d+|an?|one|two|three|four|five|six|seven|ten) (day|week)s?\b/);
+  if (match) {
+    const count = Number(match[1]) || NUMBER_WORDS[match[1]] || 1;
+    return found(match, addDays(reference, match[2] === 'week' ? count * 7 : count));
+  }
+
+  // "by March 3", "on 3rd March", "due Mar. 14th"; a date already passed this year means next year
+  match = lower.match(/\b(?:by|on|due|before|until) (?:(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? (\d{1,2})|(\d{1,2})(?:st|nd|rd|th)? (?:of )?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*)\b/);
+  if (match) {
+    const month = MONTHS.indexOf(match[1] ?? match[4]);
+    const day = Number(match[2] ?? match[3]);
+    let date = new Date(reference.getFullYear(), month, day);
+    if (date.getMonth() !== month) return null;
+    if (date < addDays(reference, 0)) date = new Date(reference.getFullYear() + 1, month, day);
+    return found(match, date);
+  }
+
+  return null;
+};
+
+const keywords = (text: string) =>
+  new Set((text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared += 1;
+  // Relative to the smaller set, so "Send deck" matches "Priya to send the deck to investors"
+  const smaller = Math.min(a.size, b.size);
+  return shared / (smaller >= MIN_SUBSET_KEYWORDS ? smaller : Math.max(a.size, b.size));
+};
+
+// Whether two analysis bullets are the same item re-worded
+export const isSameItem = (a: string, b: string) => similarity(keywords(a), keywords(b)) >= DUPLICATE_SIMILARITY;
+
+/**
+ * Splits an analysis bullet into owner and task. Recognizes "Name: task", "Name (Speaker 1) to task"
+ * and "Name to/will task" where Name is a known speaker label or registered name.
+ */
+export const parseOwner = (item: string, registry: SpeakerRegistry): { owner?: string; text: string } => {
+  const trimmed = item.trim();
+
+  // A capitalized name of up to three words, so "Follow up: ..." isn't read as an owner
+  const labelled = trimmed.match(SPEAKER_LABEL_REGEX) ?? trimmed.match(/^(\p{Lu}[\p{L}'-]*(?: \p{Lu}[\p{L}'-]*){0,2}):\s*/u);
+  if (labelled) return { owner: labelled[1].trim(), text: trimmed.slice(labelled[0].length).trim() };
+
+  const annotated = trimmed.match(/^([\p{L}' -]{1,40}?)\s*\((Speaker \d+|Speaker [A-Z]|Participant \d+)\)\s*(?:to |will |should )?/iu);
+  if (annotated) return { owner: annotated[1].trim(), text: trimmed.slice(annotated[0].length).trim() };
+
+  const assigned = trimmed.match(/^(Speaker \d+|Speaker [A-Z]|Participant \d+)\s+(?:to|will|should|needs to)\s+/i);
+  if (assigned) return { owner: assigned[1], text: trimmed.slice(assigned[0].length).trim() };
+
+  const known = [...Object.keys(registry.names), ...Object.values(registry.names)];
+  for (const name of known) {
+    const prefix = trimmed.match(new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s+(?:to|will|should|needs to)\\s+`, 'i'));
+    if (prefix) return { owner: name, text: trimmed.slice(prefix[0].length).trim() };
+  }
+
+  return { text: trimmed };
+};
+
+/**
+ * The chunk sharing the most keywords with a task. Later chunks win ties, since tasks are usually
+ * restated when they're agreed.
+ */
+export const findSourceChunk = (text: string, chunks: TranscriptChunk[]): TranscriptChunk | undefined => {
+  const words = keywords(text);
+  let best: TranscriptChunk | undefined;
+  let bestScore = MIN_SOURCE_OVERLAP - 1;
+  for (const chunk of chunks) {
+    const chunkWords = keywords(chunk.text);
+    let score = 0;
+    for (const word of words) if (chunkWords.has(word)) score += 1;
+    if (score >= bestScore && score >= MIN_SOURCE_OVERLAP) {
+      best = chunk;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Display name for a stored owner, following later speaker renames and merges.
+ */
+export const resolveOwner = (owner: string, registry: SpeakerRegistry) =>
+  SPEAKER_LABEL_REGEX.test(`${owner}:`) ? resolveSpeaker(registry, owner) : owner;
+
+/**
+ * Folds the action items of a new analysis into the tracked list. Items matching an existing task
+ * (including dismissed ones) only fill in a missing owner, due date or source; new ones are appended.
+ */
+export const mergeActionItems = (
+  existing: ActionItem[],
+  analysisItems: string[],
+  chunks: TranscriptChunk[],
+  registry: SpeakerRegistry,
+  now: number = Date.now()
+): ActionItem[] => {
+  const merged = [...existing];
+
+  analysisItems.forEach((item, index) => {
+    const { owner, text } = parseOwner(item, registry);
+    if (!text) return;
+    const words = keywords(text);
+    const source = findSourceChunk(text, chunks);
+    const due = parseDueDate(text, source?.timestamp ?? now);
+
+    const matchIndex = merged.findIndex(task => similarity(keywords(task.text), words) >= DUPLICATE_SIMILARITY);
+    if (matchIndex !== -1) {
+      const task = merged[matchIndex];
+      merged[matchIndex] = {
+        ...task,
+        owner: task.owner ?? owner,
+        dueDate: task.dueDate ?? due?.date,
+        dueText: task.dueText ?? due?.phrase,
+        sourceChunkId: task.sourceChunkId ?? source?.id
+      };
+      return;
+    }
+
+    merged.push({
+      id: `${now}-${index}`,
+      text,
+      owner,
+      dueDate: due?.date,
+      dueText: due?.phrase,
+      sourceChunkId: source?.id,
+      done: false,
+      createdAt: now
+    });
+  });
+
+  return merged;
+};
+
+/**
+ * Open tasks first (soonest due first), then completed ones. Dismissed tasks are left out.
+ */
+export const sortActionItems = (items: ActionItem[]): ActionItem[] =>
+  items
+    .filter(item => !item.dismissed)
+    .sort((a, b) =>
+      Number(a.done) - Number(b.done) ||
+      (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999') ||
+      a.createdAt - b.createdAt
+    );
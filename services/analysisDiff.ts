@@ -0,0 +1,97 @@
+import { AnalysisQuestion, AnalysisResult, AnalysisSection } from "../types";
+
+export type ChangeKind = 'added' | 'removed' | 'unchanged';
+
+export interface DiffItem {
+  text: string;
+  change: ChangeKind;
+}
+
+export interface QuestionDiffItem extends AnalysisQuestion {
+  change: ChangeKind;
+  answerChanged: boolean; // Answered since the previous version, or answered differently
+}
+
+export type AnalysisListField = 'keyPoints' | 'decisions' | 'actionItems' | 'topics';
+
+export interface AnalysisDiff {
+  lists: Record<AnalysisListField, DiffItem[]>;
+  questions: QuestionDiffItem[];
+  summaryChanged: boolean;
+  insightsChanged: boolean; // Legacy projectInsights field
+  changedSections: Set<string>; // Ids of preset sections whose content changed
+  addedCount: number;
+  removedCount: number;
+}
+
+const LIST_FIELDS: AnalysisListField[] = ['keyPoints', 'decisions', 'actionItems', 'topics'];
+
+// Models re-word trivially between versions (case, punctuation, trailing periods), which isn't a real change
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Current items in order, each marked added or unchanged, followed by the previous version's items
+ * that are no longer present.
+ */
+const diffList = (previous: string[], current: string[]): DiffItem[] => {
+  const before = new Set(previous.map(normalize));
+  const after = new Set(current.map(normalize));
+  return [
+    ...current.map(text => ({ text, change: before.has(normalize(text)) ? 'unchanged' as const : 'added' as const })),
+    ...previous.filter(text => !after.has(normalize(text))).map(text => ({ text, change: 'removed' as const }))
+  ];
+};
+
+// Same as diffList, keyed on the question text, with answers compared for questions in both versions
+const diffQuestions = (previous: AnalysisQuestion[], current: AnalysisQuestion[]): QuestionDiffItem[] => {
+  const before = new Map(previous.map(question => [normalize(question.text), question]));
+  const after = new Set(current.map(question => normalize(question.text)));
+  return [
+    ...current.map(question => {
+      const earlier = before.get(normalize(question.text));
+      return {
+        ...question,
+        change: earlier ? 'unchanged' as const : 'added' as const,
+        answerChanged: !!earlier && normalize(earlier.answer ?? '') !== normalize(question.answer ?? '')
+      };
+    }),
+    ...previous
+      .filter(question => !after.has(normalize(question.text)))
+      .map(question => ({ ...question, change: 'removed' as const, answerChanged: false }))
+  ];
+};
+
+const sectionContent = (section: AnalysisSection) => normalize(section.items?.join('\n') ?? section.text ?? '');
+
+const diffSections = (previous: AnalysisSection[], current: AnalysisSection[]): Set<string> => {
+  const before = new Map(previous.map(section => [section.id, sectionContent(section)]));
+  return new Set(current.filter(section => before.get(section.id) !== sectionContent(section)).map(section => section.id));
+};
+
+/**
+ * Compares an analysis version with the one before it.
+ */
+export const diffAnalyses = (previous: AnalysisResult, current: AnalysisResult): AnalysisDiff => {
+  const lists = {} as Record<AnalysisListField, DiffItem[]>;
+  let addedCount = 0;
+  let removedCount = 0;
+
+  for (const field of LIST_FIELDS) {
+    lists[field] = diffList(previous[field] ?? [], current[field] ?? []);
+    addedCount += lists[field].filter(item => item.change === 'added').length;
+    removedCount += lists[field].filter(item => item.change === 'removed').length;
+  }
+  const questions = diffQuestions(previous.questions ?? [], current.questions ?? []);
+  addedCount += questions.filter(question => question.change === 'added').length;
+  removedCount += questions.filter(question => question.change === 'removed').length;
+
+  return {
+    lists,
+    questions,
+    summaryChanged: normalize(previous.summary) !== normalize(current.summary),
+    insightsChanged: normalize(previous.projectInsights ?? '') !== normalize(current.projectInsights ?? ''),
+    changedSections: diffSections(previous.sections ?? [], current.sections ?? []),
+    addedCount,
+    removedCount
+  };
+};
@@ -0,0 +1,207 @@
+import { AnalysisPreset, AnalysisQuestion, AnalysisResult, AnalysisSection } from "../types";
+
+// Markdown headings used by the original free-form analysis prompt, mapped to AnalysisResult fields.
+// Matched case-insensitively against the start of each "###" heading.
+const MARKDOWN_SECTIONS: { prefix: string; field: keyof AnalysisResult }[] = [
+  { prefix: 'updated summary', field: 'summary' },
+  { prefix: 'summary', field: 'summary' },
+  { prefix: 'key points', field: 'keyPoints' },
+  { prefix: 'decisions', field: 'decisions' },
+  { prefix: 'action items', field: 'actionItems' },
+  { prefix: 'important names', field: 'topics' },
+  { prefix: 'topics', field: 'topics' },
+  { prefix: 'project / technical insights', field: 'projectInsights' },
+  { prefix: 'project insights', field: 'projectInsights' },
+  { prefix: 'technical insights', field: 'projectInsights' },
+  { prefix: 'polished project idea', field: 'polishedIdea' },
+];
+
+const BULLET_REGEX = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+export const emptyAnalysisResult = (): AnalysisResult => ({
+  summary: '',
+  keyPoints: [],
+  actionItems: [],
+  topics: [],
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toStringList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(item => (typeof item === 'string' ? item.trim() : ''))
+    .filter(item => item !== '');
+};
+
+const toText = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  // Models occasionally return a list where a paragraph was requested
+  if (Array.isArray(value)) return toStringList(value).join('\n');
+  return '';
+};
+
+// Questions come from the model as { question, answer } with an empty answer while open
+const toQuestions = (value: unknown): AnalysisQuestion[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item: unknown) => {
+      if (typeof item === 'string') return { text: item.trim() };
+      if (!isRecord(item)) return { text: '' };
+      const answer = toText(item.answer);
+      return { text: toText(item.question ?? item.text), ...(answer ? { answer } : {}) };
+    })
+    .filter(question => question.text !== '');
+};
+
+const toSection = (id: string, title: string, value: unknown, isList: boolean): AnalysisSection | null => {
+  if (isList) {
+    const items = toStringList(value);
+    return items.length ? { id, title, items } : null;
+  }
+  const text = toText(value);
+  return text ? { id, title, text } : null;
+};
+
+/**
+ * Model output has sections keyed by id (titles come from the preset); stored results have them
+ * as an array of AnalysisSection.
+ */
+const toSections = (value: unknown, preset?: AnalysisPreset): AnalysisSection[] => {
+  if (Array.isArray(value)) {
+    return value
+      .map((section: unknown) => isRecord(section) && typeof section.id === 'string'
+        ? toSection(section.id, toText(section.title) || section.id, section.items ?? section.text, Array.isArray(section.items))
+        : null)
+      .filter((section): section is AnalysisSection => !!section);
+  }
+  if (!isRecord(value)) return [];
+  const definitions = preset?.sections ?? Object.keys(value).map(id => ({ id, title: id, format: Array.isArray(value[id]) ? 'list' : 'text' }));
+  return definitions
+    .map(definition => toSection(definition.id, definition.title, value[definition.id], definition.format === 'list'))
+    .filter((section): section is AnalysisSection => !!section);
+};
+
+/**
+ * Checks an arbitrary value (usually parsed model JSON) against the AnalysisResult shape.
+ * Missing or mistyped fields are coerced to empty values; returns null if nothing usable remains.
+ */
+export const validateAnalysisResult = (value: unknown, preset?: AnalysisPreset): AnalysisResult | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+
+  const result: AnalysisResult = {
+    summary: toText(raw.summary),
+    keyPoints: toStringList(raw.keyPoints),
+    actionItems: toStringList(raw.actionItems),
+    topics: toStringList(raw.topics),
+  };
+
+  if (Array.isArray(raw.decisions)) result.decisions = toStringList(raw.decisions);
+  if (Array.isArray(raw.questions)) result.questions = toQuestions(raw.questions);
+  const sections = toSections(raw.sections, preset);
+  if (sections.length) result.sections = sections;
+  const projectInsights = toText(raw.projectInsights);
+  if (projectInsights) result.projectInsights = projectInsights;
+  const polishedIdea = toText(raw.polishedIdea);
+  if (polishedIdea) result.polishedIdea = polishedIdea;
+  const rollingDigest = toText(raw.rollingDigest);
+  if (rollingDigest) result.rollingDigest = rollingDigest;
+
+  return isAnalysisEmpty(result) ? null : result;
+};
+
+export const isAnalysisEmpty = (result: AnalysisResult): boolean =>
+  !result.summary &&
+  !result.projectInsights &&
+  !result.polishedIdea &&
+  !result.sections?.length &&
+  result.keyPoints.length === 0 &&
+  result.actionItems.length === 0 &&
+  result.topics.length === 0 &&
+  !result.decisions?.length &&
+  !result.questions?.length;
+
+/**
+ * Fallback parser for the legacy Markdown layout ("### Updated Summary So Far", "### Action Items", ...).
+ * Used when the model ignores the response schema and answers in prose.
+ */
+export const parseAnalysisMarkdown = (markdown: string): AnalysisResult | null => {
+  const result = emptyAnalysisResult();
+  const buffers: Partial<Record<keyof AnalysisResult, string[]>> = {};
+  let current: keyof AnalysisResult | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      const title = heading[1].replace(/[*_]/g, '').trim().toLowerCase();
+      current = MARKDOWN_SECTIONS.find(section => title.startsWith(section.prefix))?.field ?? null;
+      continue;
+    }
+    if (!current || !line.trim()) continue;
+    (buffers[current] ??= []).push(line);
+  }
+
+  const listOf = (field: keyof AnalysisResult) =>
+    (buffers[field] ?? []).map(line => line.replace(BULLET_REGEX, '').trim()).filter(Boolean);
+  // Paragraph fields keep their line breaks; the old prompt wrapped them in single bullets
+  const textOf = (field: keyof AnalysisResult) => listOf(field).join('\n');
+
+  result.summary = textOf('summary');
+  result.keyPoints = listOf('keyPoints');
+  result.actionItems = listOf('actionItems');
+  result.topics = listOf('topics');
+  const decisions = listOf('decisions');
+  if (decisions.length) result.decisions = decisions;
+  const projectInsights = textOf('projectInsights');
+  if (projectInsights) result.projectInsights = projectInsights;
+  const polishedIdea = textOf('polishedIdea');
+  if (polishedIdea) result.polishedIdea = polishedIdea;
+
+  return isAnalysisEmpty(result) ? null : result;
+};
+
+/**
+ * Turns a raw model response into an AnalysisResult.
+ * Tries JSON first (optionally wrapped in a ```json fence), then the legacy Markdown headings.
+ */
+export const parseAnalysisResponse = (text: string, preset?: AnalysisPreset): AnalysisResult | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const unfenced = trimmed.replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  try {
+    const parsed = validateAnalysisResult(JSON.parse(unfenced), preset);
+    if (parsed) return parsed;
+  } catch {
+    // Not JSON - fall through to the Markdown parser
+  }
+
+  return parseAnalysisMarkdown(trimmed);
+};
+
+/**
+ * Serializes an AnalysisResult back into the Markdown report format used for downloads.
+ */
+export const analysisToMarkdown = (result: AnalysisResult): string => {
+  const bullets = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+  const sections: string[] = [];
+
+  if (result.summary) sections.push(`### Summary\n${result.summary}`);
+  // Older analyses mixed decisions into the key points
+  if (result.keyPoints.length) sections.push(`### ${result.decisions ? 'Key Points' : 'Key Points / Decisions'}\n${bullets(result.keyPoints)}`);
+  if (result.decisions?.length) sections.push(`### Decisions\n${bullets(result.decisions)}`);
+  if (result.questions?.length) {
+    sections.push(`### Questions\n${bullets(result.questions.map(question => question.answer ? `${question.text} (Answered: ${question.answer})` : `${question.text} (Open)`))}`);
+  }
+  if (result.actionItems.length) sections.push(`### Action Items\n${bullets(result.actionItems)}`);
+  if (result.topics.length) sections.push(`### Important Names / Topics\n${bullets(result.topics)}`);
+  if (result.projectInsights) sections.push(`### Project / Technical Insights\n${result.projectInsights}`);
+  if (result.polishedIdea) sections.push(`### Polished Project Idea\n${result.polishedIdea}`);
+  for (const section of result.sections ?? []) {
+    sections.push(`### ${section.title}\n${section.items ? bullets(section.items) : section.text}`);
+  }
+
+  return sections.join('\n\n') + '\n';
+};
@@ -0,0 +1,170 @@
+import { AnalysisPreset, AnalysisSectionDefinition } from "../types";
+
+const CUSTOM_PRESETS_STORAGE_KEY = 'analysisPresets';
+const DEFAULT_PRESET_STORAGE_KEY = 'defaultAnalysisPreset';
+
+// The original hackathon-oriented analysis, also assumed for analyses saved before presets existed
+export const DEFAULT_PRESET_ID = 'hackathon';
+
+export const BUILT_IN_PRESETS: AnalysisPreset[] = [
+  {
+    id: 'hackathon',
+    name: 'Hackathon',
+    description: 'Project ideas and technical insights',
+    instructions: 'Identify technical, project, or hackathon-relevant insights.',
+    sections: [
+      { id: 'projectInsights', title: 'Project / Technical Insights', format: 'text', instructions: 'Ideas or technical suggestions relevant to a project or hackathon.' },
+      { id: 'polishedIdea', title: 'Polished Project Idea', format: 'text', instructions: 'If applicable, a refined paragraph summarizing the project concept based on the discussion. Leave empty otherwise.' }
+    ],
+    builtIn: true
+  },
+  {
+    id: 'standup',
+    name: 'Standup',
+    description: 'Per-person updates and blockers',
+    instructions: 'This is a daily standup. Key points are the notable updates. Keep everything brief and attribute updates to people.',
+    sections: [
+      { id: 'updates', title: 'Updates by Person', format: 'list', instructions: 'One entry per person: "Name: done since last time; planned next".' },
+      { id: 'blockers', title: 'Blockers', format: 'list', instructions: 'Anything blocking progress, with who is blocked and who can help.' }
+    ],
+    builtIn: true
+  },
+  {
+    id: 'retrospective',
+    name: 'Retrospective',
+    description: 'What went well, what didn\'t, what to change',
+    instructions: 'This is a team retrospective. Key points are the agreed improvements. Capture sentiment fairly without blaming individuals.',
+    sections: [
+      { id: 'wentWell', title: 'What Went Well', format: 'list', instructions: 'Things the team wants to keep doing.' },
+      { id: 'toImprove', title: 'What To Improve', format: 'list', instructions: 'Problems, frustrations and things that went badly.' },
+      { id: 'experiments', title: 'Experiments', format: 'list', instructions: 'Concrete changes the team agreed to try next iteration.' }
+    ],
+    builtIn: true
+  },
+  {
+    id: 'lecture',
+    name: 'Lecture Notes',
+    description: 'Concepts, definitions and study questions',
+    instructions: 'This is a lecture or class. Key points are the main concepts taught, in order. Action items are assignments, readings and deadlines.',
+    sections: [
+      { id: 'definitions', title: 'Definitions', format: 'list', instructions: 'Terms defined in the lecture, as "Term: definition".' },
+      { id: 'examples', title: 'Examples', format: 'list', instructions: 'Worked examples or illustrations, one line each.' },
+      { id: 'reviewQuestions', title: 'Review Questions', format: 'list', instructions: 'Three to five questions a student could use to test their understanding.' }
+    ],
+    builtIn: true
+  },
+  {
+    id: 'sales',
+    name: 'Sales Call',
+    description: 'Customer needs, objections and next steps',
+    instructions: 'This is a sales call. Distinguish the customer from the sales team. Key points are what the customer said about their needs, budget and timeline.',
+    sections: [
+      { id: 'painPoints', title: 'Customer Pain Points', format: 'list', instructions: 'Problems and needs the customer described, in their words where possible.' },
+      { id: 'objections', title: 'Objections', format: 'list', instructions: 'Concerns or pushback raised, and how they were answered.' },
+      { id: 'dealStatus', title: 'Deal Status', format: 'text', instructions: 'Stage, budget, decision makers and timeline as far as they were mentioned.' }
+    ],
+    builtIn: true
+  },
+  {
+    id: 'interview',
+    name: 'Interview',
+    description: 'Candidate or user interview findings',
+    instructions: 'This is an interview. Distinguish the interviewer from the interviewee. Key points are the interviewee\'s most important answers.',
+    sections: [
+      { id: 'questionsAndAnswers', title: 'Questions & Answers', format: 'list', instructions: 'Each question asked with a one-sentence summary of the answer.' },
+      { id: 'quotes', title: 'Notable Quotes', format: 'list', instructions: 'Short verbatim quotes from the interviewee worth keeping.' },
+      { id: 'assessment', title: 'Observations', format: 'text', instructions: 'Strengths, concerns and open questions, based only on what was said.' }
+    ],
+    builtIn: true
+  }
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isSectionDefinition = (value: unknown): value is AnalysisSectionDefinition =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.title === 'string'
+  && (value.format === 'list' || value.format === 'text') && typeof value.instructions === 'string';
+
+const isPreset = (value: unknown): value is AnalysisPreset =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string'
+  && typeof value.description === 'string' && typeof value.instructions === 'string'
+  && Array.isArray(value.sections) && value.sections.every(isSectionDefinition);
+
+// Entries that don't match the preset shape (corrupted or written by an older version) are skipped
+export const loadCustomPresets = (): AnalysisPreset[] => {
+  try {
+    const saved = localStorage.getItem(CUSTOM_PRESETS_STORAGE_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(isPreset) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: AnalysisPreset[]) => {
+  localStorage.setItem(CUSTOM_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+// The preset new sessions start with: the last one picked
+export const loadDefaultPresetId = (): string => {
+  try {
+    return localStorage.getItem(DEFAULT_PRESET_STORAGE_KEY) || DEFAULT_PRESET_ID;
+  } catch {
+    return DEFAULT_PRESET_ID;
+  }
+};
+
+export const saveDefaultPresetId = (id: string) => {
+  localStorage.setItem(DEFAULT_PRESET_STORAGE_KEY, id);
+};
+
+/**
+ * Looks a preset up by id, falling back to the hackathon preset for missing or deleted presets.
+ */
+export const findPreset = (presets: AnalysisPreset[], id: string | undefined): AnalysisPreset =>
+  presets.find(preset => preset.id === id) ?? BUILT_IN_PRESETS[0];
+
+// JSON-safe key for a section title, e.g. "Risks & Mitigations" -> "risksMitigations"
+const toSectionId = (title: string) => {
+  const words = title.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const id = words.map((word, index) => index === 0 ? word : word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[a-z]/.test(id) ? id : `section${id}`;
+};
+
+/**
+ * Normalizes an edited custom preset: trims fields, drops untitled sections and derives unique
+ * section ids from the titles.
+ */
+export const normalizePreset = (preset: AnalysisPreset): AnalysisPreset => {
+  const used = new Set<string>(['summary', 'keyPoints', 'decisions', 'questions', 'actionItems', 'topics', 'rollingDigest']);
+  const sections: AnalysisSectionDefinition[] = preset.sections
+    .filter(section => section.title.trim())
+    .map(section => {
+      const base = toSectionId(section.title);
+      let id = base;
+      for (let n = 2; used.has(id); n++) id = `${base}${n}`;
+      used.add(id);
+      return { ...section, id, title: section.title.trim(), instructions: section.instructions.trim() };
+    });
+
+  return {
+    ...preset,
+    name: preset.name.trim() || 'Untitled preset',
+    description: preset.description.trim(),
+    instructions: preset.instructions.trim(),
+    sections,
+    builtIn: undefined
+  };
+};
+
+/**
+ * A new custom preset, optionally starting as a copy of another one.
+ */
+export const createCustomPreset = (from?: AnalysisPreset): AnalysisPreset => ({
+  id: `custom-${Date.now()}`,
+  name: from ? `${from.name} (copy)` : 'New preset',
+  description: from?.description ?? '',
+  instructions: from?.instructions ?? '',
+  sections: from ? from.sections.map(section => ({ ...section })) : []
+});
@@ -0,0 +1,102 @@
+// Transcription only needs speech-band audio; 16kHz mono keeps each WAV segment small
+export const TARGET_SAMPLE_RATE = 16000;
+
+export const SUPPORTED_IMPORT_EXTENSIONS = ['mp3', 'wav', 'm4a', 'webm', 'mp4'];
+export const IMPORT_ACCEPT = 'audio/*,video/mp4,video/webm,' + SUPPORTED_IMPORT_EXTENSIONS.map(ext => `.${ext}`).join(',');
+
+export interface AudioSegment {
+  samples: Float32Array; // View into the decoded buffer; encode with encodeWav when it's processed
+  startMs: number;
+  durationMs: number;
+}
+
+export const isSupportedImportFile = (file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return SUPPORTED_IMPORT_EXTENSIONS.includes(extension)
+    || file.type.startsWith('audio/')
+    || file.type === 'video/mp4'
+    || file.type === 'video/webm';
+};
+
+/**
+ * Decodes an audio/video file (or recorded blob) in the browser and downmixes it to mono at TARGET_SAMPLE_RATE.
+ */
+export const decodeAudioFile = async (file: Blob): Promise<Float32Array> => {
+  const data = await file.arrayBuffer();
+  // decodeAudioData resamples to the context's rate, so no separate resampling pass is needed
+  const context = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(data);
+  } catch (err) {
+    console.error("Audio decoding failed:", err);
+    throw new Error("Could not decode this file. Make sure it contains an audio track.");
+  }
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      mono[i] += samples[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+/**
+ * Encodes mono float samples as a 16-bit PCM WAV blob.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number = TARGET_SAMPLE_RATE): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Splits decoded samples into fixed-length segments, mirroring the live recorder's chunk interval.
+ * Segments are views, not copies, so long recordings aren't duplicated in memory.
+ */
+export const splitIntoSegments = (
+  samples: Float32Array,
+  segmentMs: number,
+  sampleRate: number = TARGET_SAMPLE_RATE
+): AudioSegment[] => {
+  const samplesPerSegment = Math.max(1, Math.floor((segmentMs / 1000) * sampleRate));
+  const segments: AudioSegment[] = [];
+
+  for (let start = 0; start < samples.length; start += samplesPerSegment) {
+    const slice = samples.subarray(start, Math.min(start + samplesPerSegment, samples.length));
+    segments.push({
+      samples: slice,
+      startMs: Math.round((start / sampleRate) * 1000),
+      durationMs: Math.round((slice.length / sampleRate) * 1000)
+    });
+  }
+
+  return segments;
+};
@@ -0,0 +1,53 @@
+import { Chapter, ChapterDraft, TranscriptChunk } from "../types";
+
+/**
+ * Turns provider drafts into chapters over the chunks they were detected on: in order, one per start
+ * chunk, the first starting at the first chunk, and each ending where the next one begins.
+ */
+export const buildChapters = (drafts: ChapterDraft[], chunks: TranscriptChunk[], now: number = Date.now()): Chapter[] => {
+  if (chunks.length === 0) return [];
+  const starts = new Map<number, ChapterDraft>();
+  drafts
+    .filter(draft => Number.isInteger(draft.startIndex) && draft.startIndex >= 0 && draft.startIndex < chunks.length && draft.title.trim())
+    .sort((a, b) => a.startIndex - b.startIndex)
+    .forEach((draft, index) => {
+      const start = index === 0 ? 0 : draft.startIndex;
+      if (!starts.has(start)) starts.set(start, draft);
+    });
+
+  const ordered = [...starts.entries()];
+  return ordered.map(([start, draft], index) => {
+    const nextStart = ordered[index + 1]?.[0] ?? chunks.length;
+    return {
+      id: `chapter-${now}-${index}`,
+      title: draft.title.trim(),
+      startChunkId: chunks[start].id,
+      endChunkId: chunks[nextStart - 1].id,
+      summary: draft.summary.trim()
+    };
+  });
+};
+
+/**
+ * Maps each chunk to its chapter, following the chunks' current order. A chapter runs from its start
+ * chunk through its end chunk; chapters whose start chunk was deleted or merged away are skipped, and
+ * chunks recorded after the last chapter belong to none.
+ */
+export const assignChapters = (chapters: Chapter[], chunks: TranscriptChunk[]): Map<string, Chapter> => {
+  const byStart = new Map(chapters.map(chapter => [chapter.startChunkId, chapter]));
+  const assigned = new Map<string, Chapter>();
+  let current: Chapter | null = null;
+  for (const chunk of chunks) {
+    current = byStart.get(chunk.id) ?? current;
+    if (!current) continue;
+    assigned.set(chunk.id, current);
+    if (chunk.id === current.endChunkId) current = null;
+  }
+  return assigned;
+};
+
+// Chapters keyed by the chunk they start at, leaving out ones whose start chunk no longer exists
+export const chapterStarts = (chapters: Chapter[], chunks: TranscriptChunk[]): Map<string, Chapter> => {
+  const chunkIds = new Set(chunks.map(chunk => chunk.id));
+  return new Map(chapters.filter(chapter => chunkIds.has(chapter.startChunkId)).map(chapter => [chapter.startChunkId, chapter]));
+};
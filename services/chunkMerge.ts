@@ -0,0 +1,101 @@
+// Overlap windows are a second or two of speech, so only a short tail/head needs aligning
+const MAX_ALIGN_WORDS = 20;
+// A single repeated word only counts as overlap when it's long enough to be unlikely by chance
+const MIN_SINGLE_WORD_LENGTH = 4;
+
+const SPEAKER_PREFIX_REGEX = /^((?:Speaker \d+|Speaker [A-Z]|Participant \d+|User):\s*)/i;
+
+export interface MergedChunkText {
+  previousText: string; // Previous chunk, minus a trailing half-word the new chunk completes
+  text: string; // New chunk with the words repeated from the previous chunk removed
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+const splitLine = (line: string) => {
+  const prefix = line.match(SPEAKER_PREFIX_REGEX)?.[1] ?? '';
+  const words = line.slice(prefix.length).split(/\s+/).filter(Boolean);
+  return { prefix, words };
+};
+
+type WordMatch = 'exact' | 'partial' | null;
+
+/**
+ * Compares a word from the end of the previous chunk with one from the start of the new chunk.
+ * Seams cut words in half, so the first new word may be the tail of the previous word
+ * and the last previous word may be the head of the new one.
+ */
+const compareWords = (prevWord: string, newWord: string, isFirst: boolean, isLast: boolean, allowPartial: boolean): WordMatch => {
+  const a = normalizeWord(prevWord);
+  const b = normalizeWord(newWord);
+  if (!a || !b) return null;
+  if (a === b) return 'exact';
+  if (isLast && allowPartial && b.startsWith(a)) return 'partial';
+  if (isFirst && a.endsWith(b)) return 'exact';
+  return null;
+};
+
+/**
+ * Finds the longest run of words that ends the previous chunk and starts the new one.
+ * Returns the run length and whether the previous chunk's last word was a cut-off half-word.
+ */
+const findOverlap = (prevWords: string[], newWords: string[]) => {
+  const tail = prevWords.slice(-MAX_ALIGN_WORDS);
+  const head = newWords.slice(0, MAX_ALIGN_WORDS);
+
+  for (let k = Math.min(tail.length, head.length); k >= 1; k--) {
+    let lastMatch: WordMatch = null;
+    let matched = true;
+    for (let i = 0; i < k; i++) {
+      // A lone word ending the previous chunk ("in" before "information") is usually complete, so a
+      // half-word only counts inside an overlap of two or more words
+      lastMatch = compareWords(tail[tail.length - k + i], head[i], i === 0, i === k - 1, k >= 2);
+      if (!lastMatch) {
+        matched = false;
+        break;
+      }
+    }
+    if (!matched) continue;
+    if (k === 1 && normalizeWord(head[0]).length < MIN_SINGLE_WORD_LENGTH) continue;
+    return { length: k, previousWordCut: lastMatch === 'partial' };
+  }
+
+  return null;
+};
+
+/**
+ * Aligns a newly transcribed chunk against the tail of the previous one and drops the words
+ * both transcriptions contain because their audio overlapped. Speaker labels are ignored
+ * when aligning (numbering differs between chunks) but preserved in the output.
+ */
+export const mergeChunkText = (previousText: string, newText: string): MergedChunkText => {
+  const prevLines = previousText.split('\n');
+  const newLines = newText.split('\n');
+  const prevLast = splitLine(prevLines[prevLines.length - 1]);
+  const newFirst = splitLine(newLines[0]);
+
+  const overlap = findOverlap(prevLast.words, newFirst.words);
+  if (!overlap) return { previousText, text: newText };
+
+  let prevWords = prevLast.words;
+  let dropCount = overlap.length;
+  if (overlap.previousWordCut) {
+    // Keep the complete word from the new chunk and remove the fragment from the previous one
+    prevWords = prevWords.slice(0, -1);
+    dropCount -= 1;
+  }
+
+  const remainingFirst = newFirst.words.slice(dropCount);
+  const mergedNewLines = remainingFirst.length > 0
+    ? [newFirst.prefix + remainingFirst.join(' '), ...newLines.slice(1)]
+    : newLines.slice(1);
+
+  const mergedPrevLines = prevWords.length > 0
+    ? [...prevLines.slice(0, -1), prevLast.prefix + prevWords.join(' ')]
+    : prevLines.slice(0, -1);
+
+  return {
+    previousText: mergedPrevLines.join('\n'),
+    text: mergedNewLines.join('\n').trim()
+  };
+};
@@ -0,0 +1,100 @@
+import { AnalysisResult, DecisionLogEntry, DecisionLogKind, SpeakerRegistry, TranscriptChunk } from "../types";
+import { findSourceChunk, isSameItem, parseOwner, resolveOwner } from "./actionItems";
+
+export interface OpenQuestionsReportContext {
+  registry: SpeakerRegistry;
+  meetingTitle: string;
+  meetingStartedAt: number;
+  formatTime: (timestamp: number) => string; // Label for when something was said, as shown in the transcript
+}
+
+/**
+ * Folds the decisions and questions of a new analysis into the tracked log. Entries matching an
+ * existing one (including dismissed ones) only fill in what's missing; a question the analysis now
+ * reports an answer for is marked resolved. Questions are never reopened by a later analysis.
+ */
+export const mergeDecisionLog = (
+  existing: DecisionLogEntry[],
+  result: AnalysisResult,
+  chunks: TranscriptChunk[],
+  registry: SpeakerRegistry,
+  now: number = Date.now()
+): DecisionLogEntry[] => {
+  const merged = [...existing];
+
+  const track = (kind: DecisionLogKind, item: string, index: number, answer?: string) => {
+    const { owner, text } = parseOwner(item, registry);
+    if (!text) return;
+    const source = findSourceChunk(text, chunks);
+    // Answers come after the question, so earlier chunks that happen to share words aren't cited
+    const answerSource = answer ? findSourceChunk(answer, chunks.filter(chunk => !source || chunk.timestamp >= source.timestamp)) : undefined;
+
+    const matchIndex = merged.findIndex(entry => entry.kind === kind && isSameItem(entry.text, text));
+    if (matchIndex !== -1) {
+      const entry = merged[matchIndex];
+      merged[matchIndex] = {
+        ...entry,
+        speaker: entry.speaker ?? owner,
+        sourceChunkId: entry.sourceChunkId ?? source?.id,
+        timestamp: entry.sourceChunkId || !source ? entry.timestamp : source.timestamp,
+        ...(answer && !entry.answer ? { resolved: true, answer, answerChunkId: answerSource?.id } : {})
+      };
+      return;
+    }
+
+    merged.push({
+      id: `${now}-${kind}-${index}`,
+      kind,
+      text,
+      speaker: owner,
+      sourceChunkId: source?.id,
+      timestamp: source?.timestamp ?? now,
+      resolved: !!answer,
+      answer,
+      answerChunkId: answerSource?.id,
+      createdAt: now
+    });
+  };
+
+  (result.decisions ?? []).forEach((decision, index) => track('decision', decision, index));
+  (result.questions ?? []).forEach((question, index) => track('question', question.text, index, question.answer));
+  return merged;
+};
+
+/**
+ * Entries of one kind in the order they were said. Dismissed entries are left out.
+ */
+export const listDecisionLog = (entries: DecisionLogEntry[], kind: DecisionLogKind): DecisionLogEntry[] =>
+  entries
+    .filter(entry => entry.kind === kind && !entry.dismissed)
+    .sort((a, b) => a.timestamp - b.timestamp || a.createdAt - b.createdAt);
+
+export const openQuestions = (entries: DecisionLogEntry[]): DecisionLogEntry[] =>
+  listDecisionLog(entries, 'question').filter(entry => !entry.resolved);
+
+/**
+ * Markdown report of the questions nobody answered, with the decisions made for context.
+ */
+export const buildOpenQuestionsReport = (entries: DecisionLogEntry[], { registry, meetingTitle, meetingStartedAt, formatTime }: OpenQuestionsReportContext): string => {
+  const attribution = (entry: DecisionLogEntry, verb: string) => {
+    const speaker = entry.speaker ? `${verb} by ${resolveOwner(entry.speaker, registry)} ` : '';
+    return ` (${speaker}at ${formatTime(entry.timestamp)})`;
+  };
+  const open = openQuestions(entries);
+  const answeredCount = listDecisionLog(entries, 'question').length - open.length;
+  const decisions = listDecisionLog(entries, 'decision');
+  const date = new Date(meetingStartedAt).toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+  const lines = [
+    `# Still open: ${meetingTitle}`,
+    '',
+    date,
+    '',
+    '## Open questions',
+    '',
+    ...(open.length ? open.map(entry => `- [ ] ${entry.text}${attribution(entry, 'asked')}`) : ['- (None. Every question raised was answered.)']),
+  ];
+  if (answeredCount > 0) lines.push('', `${answeredCount} other ${answeredCount === 1 ? 'question was' : 'questions were'} answered during the meeting.`);
+  if (decisions.length) lines.push('', '## Decisions made', '', ...decisions.map(entry => `- ${entry.text}${attribution(entry, 'decided')}`));
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,22 @@
+/**
+ * Saves text content as a file through a temporary object URL.
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Timestamp suffix used in downloaded file names, e.g. 2025-01-31T14-05-09
+export const fileTimestamp = (date: Date = new Date()) =>
+  date.toISOString().slice(0, 19).replace(/:/g, '-');
+
+// Turns a session title into a safe file name stem
+export const slugify = (title: string) =>
+  title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'transcript';
@@ -0,0 +1,12 @@
+// Scripted meeting used by the local provider. Each entry is what one audio chunk "transcribes" to,
+// so the app can be exercised end to end without network access or an API key.
+export const LOCAL_TRANSCRIPT_SCRIPT: string[] = [
+  "Speaker 1: Okay, let's get started. Thanks everyone for joining the planning sync.\nSpeaker 2: Hi, I'm Priya, I'll be taking notes today.",
+  "Speaker 1: First item is the API migration. We need the new endpoints live before the Friday release.\nSpeaker 3: I can own the API migration, but I'll need the schema finalized by Wednesday.",
+  "Speaker 2: The schema is mostly done. I will send the final version to Sam by Wednesday morning.\nSpeaker 3: Great, that works for me.",
+  "Speaker 1: Next, the onboarding flow. Customers keep dropping off at the billing step.\nSpeaker 2: We decided last week to move billing after the first project is created.",
+  "Speaker 3: Do we know whether the analytics dashboard tracks that step yet?\nSpeaker 1: Not yet. Priya, can you check with the data team?",
+  "Speaker 2: Sure, I'll follow up with the data team tomorrow.\nSpeaker 1: Perfect. Let's also keep the pricing page change on hold until after the release.",
+  "Speaker 3: Agreed. One more thing, the staging environment has been flaky this week.\nSpeaker 1: Let's schedule a short retro on staging next Monday.",
+  "Speaker 1: I think that's everything. Thanks all.\nSpeaker 2: Thanks, I'll share the notes after the call.",
+];
@@ -1,8 +1,13 @@
-import { GoogleGenAI } from "@google/genai";
-import { AnalysisResult } from "../types";
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisPreset, AnalysisResult, AnalyzeOptions, ChapterDraft, Message, TranscribeOptions, TranscriptionProvider, AnalysisProvider, TranslationResult } from "../types";
+import { parseAnalysisResponse } from "./analysisFormat";
+import { formatGlossaryPrompt } from "./glossary";
+import { BUILT_IN_PRESETS } from "./analysisPresets";
+import { languageName } from "./translation";
+import { ServiceError, isRetryableStatusText } from "./serviceError";
 
 const apiKey = process.env.API_KEY;
-const ai = new GoogleGenAI({ apiKey: apiKey });
+let client: GoogleGenAI | null = null;
 
 const checkApiKey = () => {
   if (!apiKey) {
@@ -10,7 +15,23 @@ const checkApiKey = () => {
   }
 };
 
-const ANALYSIS_SYSTEM_INSTRUCTION = `You are an AI assistant designed to process both live streaming audio and pre-recorded audio 
+// Created on first use so the app still loads (with other providers) when no key is configured
+const getClient = () => {
+  checkApiKey();
+  if (!client) client = new GoogleGenAI({ apiKey });
+  return client;
+};
+
+// Field list entry for the preset's own sections, nested under "sections"
+const describeSections = (preset: AnalysisPreset) => {
+  if (preset.sections.length === 0) return '';
+  const fields = preset.sections.map(section =>
+    `  - "${section.id}" (${section.format === 'list' ? 'list of strings' : 'paragraph'}, "${section.title}"): ${section.instructions}`
+  );
+  return `- "sections": An object with these fields:\n${fields.join('\n')}\n`;
+};
+
+const buildAnalysisSystemInstruction = (preset: AnalysisPreset) => `You are an AI assistant designed to process both live streaming audio and pre-recorded audio 
 from meetings, classes, or discussions.
 
 You will receive either:
@@ -22,47 +43,157 @@ Your job is to:
 1. Continuously clean and understand the incoming transcript.
 2. Summarize the discussion in clear, concise language.
 3. Track topics and highlight any topic changes.
-4. Extract decisions, key points, questions, tasks, and ideas.
+4. Extract key points, tasks, and ideas, and keep decisions and questions in their own lists.
 5. Keep an updated list of action items, responsibilities, and deadlines. ATTRIBUTE these to specific speakers if possible (e.g., "John (Speaker 1) to send email").
 6. If a speaker identifies themselves (e.g., "Hi, I'm Sarah"), map "Speaker X" to that name in your analysis.
-7. Identify technical, project, or hackathon-relevant insights.
+7. ${preset.instructions || 'Identify the insights most relevant to this kind of meeting.'}
 8. If requested, produce a final polished summary covering the full meeting/audio.
 
-For every transcript input (live chunk or full recording), respond using this structure in Markdown:
-
-### Updated Summary So Far
-- Concise summary of all main points up to now.
+For every transcript input (live chunk or full recording), respond with a single JSON object with these fields:
 
-### Key Points / Decisions
-- Bullet points of the latest information, ideas, or decisions.
+- "summary": Concise summary of all main points up to now.
+- "keyPoints": Bullet points of the latest information and ideas. Leave decisions and questions out; they have their own fields.
+- "decisions": Decisions the group made or agreed on, one per entry, starting with who made or announced it if known (e.g. "Priya (Speaker 2): Move billing after project creation").
+- "questions": Questions raised that need an answer (not small talk or rhetorical questions). Each is an object with "question" (starting with who asked it if known, e.g. "Sam (Speaker 3): Does the dashboard track that step?") and "answer" (a one-sentence summary of how it was answered later in the meeting, or "" while it's still open).
+- "actionItems": Tasks, assignments, deadlines, or next steps mentioned (with owners if known), one per entry.
+- "topics": People, tools, topics, or concepts referenced.
+${describeSections(preset)}- "rollingDigest": Compact chronological notes on the whole meeting so far (at most ~300 words), kept as memory for later updates.
 
-### Action Items
-- Tasks, assignments, deadlines, or next steps mentioned (with owners if known).
-
-### Important Names / Topics
-- People, tools, topics, or concepts referenced.
-
-### Project / Technical Insights
-- Ideas or technical suggestions relevant to a project or hackathon.
-
-### Polished Project Idea (if applicable)
-- A refined paragraph summarizing the project concept based on the discussion.
+For a rolling update you receive your previous analysis, its digest, and only the NEW transcript since then.
+Return the complete updated analysis for the whole meeting: merge the new information into the previous fields,
+keep earlier items that still apply, drop ones that were completed or reversed, and rewrite "rollingDigest" to cover everything.
+Keep every earlier question, filling in its "answer" if the new transcript answers it.
 
 Guidelines:
 - Clean up transcripts naturally (remove filler words, repetitions, false starts).
 - Never invent details; summarize only what was said.
 - Treat live audio as a continuous flow; pre-recorded audio as complete sections.
 - If the user says “final summary,” produce a complete, well-structured summary.
-- If the input is empty or just noise, just return "Waiting for meaningful input..."
+- If the input is empty or just noise, return every field empty.
+`;
+
+// Preset sections become a nested object, since the schema can't hold an array of differently typed entries
+const buildAnalysisResponseSchema = (preset: AnalysisPreset) => {
+  const sections = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(preset.sections.map(section => [
+      section.id,
+      section.format === 'list' ? { type: Type.ARRAY, items: { type: Type.STRING } } : { type: Type.STRING }
+    ])),
+    propertyOrdering: preset.sections.map(section => section.id),
+  };
+
+  return {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING },
+      keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+      actionItems: { type: Type.ARRAY, items: { type: Type.STRING } },
+      topics: { type: Type.ARRAY, items: { type: Type.STRING } },
+      decisions: { type: Type.ARRAY, items: { type: Type.STRING } },
+      questions: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            question: { type: Type.STRING },
+            answer: { type: Type.STRING },
+          },
+          required: ['question', 'answer'],
+          propertyOrdering: ['question', 'answer'],
+        },
+      },
+      ...(preset.sections.length ? { sections } : {}),
+      rollingDigest: { type: Type.STRING },
+    },
+    required: ['summary', 'keyPoints', 'actionItems', 'topics', 'decisions', 'questions'],
+    propertyOrdering: ['summary', 'keyPoints', 'decisions', 'questions', 'actionItems', 'topics', ...(preset.sections.length ? ['sections'] : []), 'rollingDigest'],
+  };
+};
+
+// Previous results store sections as an array and questions as { text, answer? }; the model sees them in its own output shape
+const toModelOutput = ({ sections, questions, ...result }: AnalysisResult) => ({
+  ...result,
+  ...(questions ? { questions: questions.map(question => ({ question: question.text, answer: question.answer ?? '' })) } : {}),
+  ...(sections?.length ? { sections: Object.fromEntries(sections.map(section => [section.id, section.items ?? section.text])) } : {})
+});
+
+const buildTranscriptPrompt = (transcript: string, options: AnalyzeOptions) => {
+  if (options.final) return `Full recording transcript. Produce the final summary.\n\n${transcript}`;
+  if (!options.previous) return `Current Transcript:\n\n${transcript}`;
+
+  const { rollingDigest, ...previous } = options.previous;
+  return [
+    `Rolling update.`,
+    `Previous analysis (JSON):\n${JSON.stringify(toModelOutput(previous))}`,
+    `Digest of the discussion so far:\n${rollingDigest || previous.summary || '(none)'}`,
+    `New transcript since the previous analysis:\n${transcript}`
+  ].join('\n\n');
+};
+
+const buildAnalysisPrompt = (transcript: string, options: AnalyzeOptions) => {
+  const glossary = formatGlossaryPrompt(options.glossary ?? []);
+  const language = options.outputLanguage
+    ? `Write every field in ${languageName(options.outputLanguage)}, whatever language the transcript is in. Keep names and speaker labels as they are.`
+    : '';
+  return [glossary, language, buildTranscriptPrompt(transcript, options)].filter(Boolean).join('\n\n');
+};
+
+const TRANSLATION_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    sourceLanguage: { type: Type.STRING },
+    translation: { type: Type.STRING },
+  },
+  required: ['sourceLanguage', 'translation'],
+  propertyOrdering: ['sourceLanguage', 'translation'],
+};
+
+const CHAPTERS_SYSTEM_INSTRUCTION = `Split a meeting transcript into chapters at the points where the topic changes.
+
+- The transcript is a list of numbered segments, each starting with its number in square brackets, e.g. [12].
+- "startSegment" is the number of the segment a chapter begins at. The first chapter begins at segment 0.
+- "title" names the topic in at most six words; "summary" says in one or two sentences what was said or decided.
+- Use as few chapters as the discussion needs: one for a single-topic conversation, rarely more than twelve.
+- Write titles and summaries in the language of the transcript.`;
+
+const CHAPTERS_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    chapters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          startSegment: { type: Type.INTEGER },
+          title: { type: Type.STRING },
+          summary: { type: Type.STRING },
+        },
+        required: ['startSegment', 'title', 'summary'],
+        propertyOrdering: ['startSegment', 'title', 'summary'],
+      },
+    },
+  },
+  required: ['chapters'],
+};
+
+const CHAT_SYSTEM_INSTRUCTION = `You answer questions about a meeting using only its transcript and analysis, given below.
+
+- Every transcript line starts with its timestamp in square brackets, e.g. [10:42:05].
+- Support each statement by citing the transcript lines it comes from, copying their timestamps exactly in square brackets, e.g. "The deadline moved to Friday [10:42:05]."
+- The analysis is a summary of the same transcript; prefer citing the transcript itself.
+- If the transcript doesn't answer the question, say so plainly. Never invent details.
+- Keep answers short. Use Markdown lists when listing several items.
 `;
 
 /**
  * Transcribes an audio blob using Gemini 2.5 Flash.
  */
-export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
-  checkApiKey();
+export const transcribeAudio = async (audioBlob: Blob, options: TranscribeOptions = {}): Promise<string> => {
+  const ai = getClient();
   try {
     const base64Audio = await blobToBase64(audioBlob);
+    const glossary = formatGlossaryPrompt(options.glossary ?? []);
     
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash',
@@ -80,7 +211,7 @@ export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
             - Use "Speaker 1" for the primary speaker if unsure.
             - Start a new line for each speaker change.
             - Format: "Speaker X: [Text]".
-            - If audio is silent or unintelligible, return an empty string.`
+            - If audio is silent or unintelligible, return an empty string.${glossary ? `\n\n${glossary}` : ''}`
           }
         ]
       }
@@ -96,40 +227,161 @@ export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
     if (errString.includes("429")) message = "Usage limit exceeded. Please wait a moment.";
     if (errString.includes("500")) message = "Gemini service temporarily unavailable.";
     
-    throw new Error(message);
+    throw new ServiceError(message, isRetryableStatusText(errString));
   }
 };
 
 /**
- * Analyzes the accumulated transcript to produce structured insights.
+ * Analyzes the accumulated transcript to produce structured insights. With `options.previous` the
+ * transcript is only the new text, and the result is the previous analysis brought up to date.
+ * Returns null when the transcript has no meaningful content yet.
  */
-export const analyzeTranscript = async (fullTranscript: string): Promise<string> => {
-  checkApiKey();
-  if (!fullTranscript.trim()) return "";
+export const analyzeTranscript = async (fullTranscript: string, options: AnalyzeOptions = {}): Promise<AnalysisResult | null> => {
+  const ai = getClient();
+  if (!fullTranscript.trim()) return null;
+  const preset = options.preset ?? BUILT_IN_PRESETS[0];
 
   try {
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash', // Using Flash for speed, could upgrade to Pro for deeper reasoning if needed
       config: {
-        systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
+        systemInstruction: buildAnalysisSystemInstruction(preset),
+        responseMimeType: 'application/json',
+        responseSchema: buildAnalysisResponseSchema(preset),
       },
       contents: {
-        parts: [
-          { text: `Current Transcript:\n\n${fullTranscript}` }
-        ]
+        parts: [{ text: buildAnalysisPrompt(fullTranscript, options) }]
       }
     });
 
-    return response.text || "";
+    // Falls back to the legacy Markdown headings if the model ignored the schema
+    return parseAnalysisResponse(response.text || "", preset);
   } catch (error: any) {
     console.error("Analysis error:", error);
     let message = "Analysis failed.";
     const errString = String(error);
     if (errString.includes("429")) message = "Analysis quota exceeded. Retrying later.";
-    throw new Error(message);
+    throw new ServiceError(message, isRetryableStatusText(errString));
+  }
+};
+
+/**
+ * Streams an answer to the last user message in `history`, grounded in the transcript context.
+ */
+export async function* chatAboutTranscript(history: Message[], context: string): AsyncGenerator<string> {
+  const ai = getClient();
+  try {
+    const stream = await ai.models.generateContentStream({
+      model: 'gemini-2.5-flash',
+      config: {
+        systemInstruction: `${CHAT_SYSTEM_INSTRUCTION}\n${context}`,
+      },
+      contents: history.map(message => ({ role: message.role, parts: [{ text: message.text }] }))
+    });
+
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  } catch (error: any) {
+    console.error("Chat error:", error);
+    let message = "Could not answer the question.";
+    const errString = String(error);
+    if (errString.includes("429")) message = "Usage limit exceeded. Please wait a moment.";
+    throw new ServiceError(message, isRetryableStatusText(errString));
+  }
+}
+
+/**
+ * Translates a transcript chunk line by line, keeping speaker labels, and detects its main language.
+ */
+export const translateTranscript = async (text: string, targetLanguage: string): Promise<TranslationResult> => {
+  const ai = getClient();
+  try {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      config: {
+        systemInstruction: `Translate meeting transcript excerpts into ${languageName(targetLanguage)}.
+- Keep the line structure and any "Speaker N:" or "Name:" prefix at the start of a line unchanged.
+- Text already in ${languageName(targetLanguage)} is returned as is. Keep names, product names and code untranslated.
+- "sourceLanguage" is the ISO 639-1 code of the main language spoken in the excerpt (e.g. "ur", "ar", "en").`,
+        responseMimeType: 'application/json',
+        responseSchema: TRANSLATION_RESPONSE_SCHEMA,
+      },
+      contents: { parts: [{ text }] }
+    });
+
+    const data: unknown = JSON.parse(response.text || '{}');
+    const raw = data && typeof data === 'object' ? data as Record<string, unknown> : {};
+    const { translation, sourceLanguage } = raw;
+    return {
+      text: typeof translation === 'string' && translation.trim() ? translation.trim() : text,
+      sourceLanguage: typeof sourceLanguage === 'string' ? sourceLanguage.trim().toLowerCase().slice(0, 2) : ''
+    };
+  } catch (error: any) {
+    console.error("Translation error:", error);
+    let message = "Translation failed.";
+    const errString = String(error);
+    if (errString.includes("429")) message = "Usage limit exceeded. Please wait a moment.";
+    throw new ServiceError(message, isRetryableStatusText(errString));
   }
 };
 
+// Narrows the parsed chapters response; buildChapters drops entries without a usable start segment
+const toChapterDrafts = (value: unknown): ChapterDraft[] => {
+  if (!value || typeof value !== 'object') return [];
+  const chapters = (value as Record<string, unknown>).chapters;
+  if (!Array.isArray(chapters)) return [];
+  return chapters.map((chapter: unknown) => {
+    const raw = chapter && typeof chapter === 'object' ? chapter as Record<string, unknown> : {};
+    return {
+      title: typeof raw.title === 'string' ? raw.title : '',
+      summary: typeof raw.summary === 'string' ? raw.summary : '',
+      startIndex: typeof raw.startSegment === 'number' ? raw.startSegment : NaN
+    };
+  });
+};
+
+/**
+ * Finds topic boundaries in a transcript given as one entry per chunk.
+ */
+export const detectChapters = async (chunkTexts: string[]): Promise<ChapterDraft[]> => {
+  const ai = getClient();
+  try {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      config: {
+        systemInstruction: CHAPTERS_SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: CHAPTERS_RESPONSE_SCHEMA,
+      },
+      contents: { parts: [{ text: chunkTexts.map((text, index) => `[${index}] ${text.trim()}`).join('\n') }] }
+    });
+
+    return toChapterDrafts(JSON.parse(response.text || '{}'));
+  } catch (error: any) {
+    console.error("Chapter detection error:", error);
+    let message = "Could not detect chapters.";
+    const errString = String(error);
+    if (errString.includes("429")) message = "Usage limit exceeded. Please wait a moment.";
+    throw new ServiceError(message, isRetryableStatusText(errString));
+  }
+};
+
+export const geminiTranscriptionProvider: TranscriptionProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash',
+  transcribe: transcribeAudio
+};
+
+export const geminiAnalysisProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash',
+  analyze: analyzeTranscript,
+  chat: chatAboutTranscript,
+  translate: translateTranscript,
+  detectChapters
+};
+
 // Helper to convert Blob to Base64
 const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -0,0 +1,156 @@
+import { GlossaryEntry, GlossaryEntryKind } from "../types";
+
+const GLOSSARY_STORAGE_KEY = 'glossary';
+
+const CSV_HEADER = ['term', 'kind', 'variants', 'note'];
+const VARIANT_SEPARATOR = ';';
+
+export const loadGlossary = (): GlossaryEntry[] => {
+  try {
+    const saved = localStorage.getItem(GLOSSARY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGlossary = (entries: GlossaryEntry[]) => {
+  localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(entries));
+};
+
+export const createGlossaryEntry = (term: string, kind: GlossaryEntryKind = 'term', variants: string[] = [], note?: string): GlossaryEntry => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  term: term.trim(),
+  kind,
+  variants: variants.map(variant => variant.trim()).filter(Boolean),
+  note: note?.trim() || undefined
+});
+
+/**
+ * Vocabulary block appended to transcription and analysis prompts, or an empty string without entries.
+ */
+export const formatGlossaryPrompt = (entries: GlossaryEntry[]): string => {
+  if (entries.length === 0) return '';
+  const line = (entry: GlossaryEntry) => {
+    const details = [
+      entry.kind === 'person' ? 'person' : '',
+      entry.note ?? '',
+      entry.variants.length ? `may sound like ${entry.variants.map(variant => `"${variant}"`).join(', ')}` : ''
+    ].filter(Boolean);
+    return `- ${entry.term}${details.length ? ` (${details.join('; ')})` : ''}`;
+  };
+  return `Glossary. Always use these exact spellings for names and terms:\n${entries.map(line).join('\n')}`;
+};
+
+// Plain comma-separated terms, for speech models that take a short free-text prompt (Whisper)
+export const formatGlossaryHint = (entries: GlossaryEntry[], maxLength: number): string => {
+  let hint = '';
+  for (const entry of entries) {
+    const next = hint ? `${hint}, ${entry.term}` : entry.term;
+    if (next.length > maxLength) break;
+    hint = next;
+  }
+  return hint;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replaces every variant with its preferred term, matching whole words case-insensitively.
+ * Longer variants go first so "cube control" wins over "cube".
+ */
+export const replaceGlossaryVariants = (text: string, entries: GlossaryEntry[]): string => {
+  const mappings = entries
+    .flatMap(entry => entry.variants.map(variant => ({ variant, term: entry.term })))
+    .filter(({ variant, term }) => variant && variant !== term)
+    .sort((a, b) => b.variant.length - a.variant.length);
+
+  return mappings.reduce((result, { variant, term }) => {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(variant)}(?![\\p{L}\\p{N}])`, 'giu');
+    return result.replace(pattern, () => term);
+  }, text);
+};
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const glossaryToCsv = (entries: GlossaryEntry[]): string => {
+  const rows = entries.map(entry =>
+    [entry.term, entry.kind, entry.variants.join(`${VARIANT_SEPARATOR} `), entry.note ?? ''].map(csvField).join(',')
+  );
+  return [CSV_HEADER.join(','), ...rows].join('\n');
+};
+
+// RFC 4180 rows: quoted fields may contain commas, doubled quotes and newlines
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * Reads a glossary CSV (term, kind, variants, note). The header row is optional and the kind defaults
+ * to "term"; variants are separated by semicolons. Throws when no row has a term.
+ */
+export const parseGlossaryCsv = (text: string): GlossaryEntry[] => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === CSV_HEADER[0];
+  const entries = (hasHeader ? rows.slice(1) : rows)
+    .filter(([term]) => term?.trim())
+    .map(([term, kind, variants = '', note]) => createGlossaryEntry(
+      term,
+      kind?.trim().toLowerCase() === 'person' ? 'person' : 'term',
+      variants.split(VARIANT_SEPARATOR),
+      note
+    ));
+
+  if (entries.length === 0) throw new Error("The file has no glossary terms.");
+  return entries;
+};
+
+/**
+ * Adds imported entries to a glossary. An imported term that already exists (case-insensitive)
+ * replaces the existing entry, keeping its position.
+ */
+export const mergeGlossaries = (existing: GlossaryEntry[], imported: GlossaryEntry[]): GlossaryEntry[] => {
+  const key = (entry: GlossaryEntry) => entry.term.toLowerCase();
+  const importedByTerm = new Map(imported.map(entry => [key(entry), entry]));
+  const merged = existing.map(entry => {
+    const replacement = importedByTerm.get(key(entry));
+    return replacement ? { ...replacement, id: entry.id } : entry;
+  });
+  const existingTerms = new Set(existing.map(key));
+  return [...merged, ...[...importedByTerm.values()].filter(entry => !existingTerms.has(key(entry)))];
+};
@@ -0,0 +1,212 @@
+import { AnalysisQuestion, AnalysisResult, AnalyzeOptions, ChapterDraft, Message, TranscriptionProvider, AnalysisProvider, TranslationResult } from "../types";
+import { LOCAL_TRANSCRIPT_SCRIPT } from "./fixtures/localTranscripts";
+import { BUILT_IN_PRESETS } from "./analysisPresets";
+
+// Small artificial delay so loading states behave like they do with a real backend
+const SIMULATED_LATENCY_MS = 300;
+
+const ACTION_PATTERN = /\b(I will|I'll|I can own|can you|let's schedule|need to|follow up|send)\b/i;
+const DECISION_PATTERN = /\b(decided|agreed|let's|we need|on hold)\b/i;
+// Keeps the rolling digest compact, like the ~300 word cap the Gemini prompt asks for
+const MAX_DIGEST_LENGTH = 2000;
+const CHUNKS_PER_CHAPTER = 6;
+const MIN_KEY_POINT_WORDS = 8;
+const STOP_WORDS = new Set(['Speaker', 'Okay', 'Thanks', 'Great', 'Sure', 'Perfect', 'Agreed', 'First', 'Next', 'Not', 'One', 'The', 'We', 'I', "I'll", "I'm", "Let's", 'Do', 'Hi']);
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let scriptPosition = 0;
+
+/**
+ * Returns the next line of the scripted meeting for every chunk, ignoring the audio itself.
+ * The script restarts from the top once it runs out.
+ */
+export const transcribeLocally = async (_audioBlob: Blob): Promise<string> => {
+  await delay(SIMULATED_LATENCY_MS);
+  const text = LOCAL_TRANSCRIPT_SCRIPT[scriptPosition % LOCAL_TRANSCRIPT_SCRIPT.length];
+  scriptPosition += 1;
+  return text;
+};
+
+export const resetLocalScript = () => {
+  scriptPosition = 0;
+};
+
+const stripSpeaker = (line: string) => line.replace(/^[^:]{1,40}:\s*/, '').trim();
+const speakerOf = (line: string) => line.match(/^([^:]{1,40}):/)?.[1];
+// "Speaker 2: We decided..." keeps its speaker as "Speaker 2: ...", like the Gemini prompt asks for
+const withSpeaker = (line: string) => {
+  const speaker = speakerOf(line);
+  return speaker ? `${speaker}: ${stripSpeaker(line)}` : stripSpeaker(line);
+};
+
+/**
+ * Sentences ending in a question mark. One counts as answered by the next line from someone else,
+ * unless that line asks something back.
+ */
+const findQuestions = (lines: string[]): AnalysisQuestion[] =>
+  lines.flatMap((line, index) => {
+    const speaker = speakerOf(line);
+    const asked = stripSpeaker(line).match(/[^.!?]+\?/g) ?? [];
+    const reply = lines.slice(index + 1).find(next => speakerOf(next) !== speaker);
+    const answer = reply && !reply.includes('?') ? stripSpeaker(reply) : undefined;
+    return asked.map(question => ({
+      text: speaker ? `${speaker}: ${question.trim()}` : question.trim(),
+      ...(answer ? { answer } : {})
+    }));
+  });
+
+// Most frequent capitalized words, as a stand-in for topics
+const topWords = (text: string, limit: number) => {
+  const counts = new Map<string, number>();
+  for (const word of text.match(/\b[A-Z][a-zA-Z']+\b/g) ?? []) {
+    if (!STOP_WORDS.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word);
+};
+
+/**
+ * Builds an AnalysisResult from keyword heuristics. Deterministic for a given transcript.
+ */
+export const analyzeLocally = async (fullTranscript: string, options: AnalyzeOptions = {}): Promise<AnalysisResult | null> => {
+  await delay(SIMULATED_LATENCY_MS);
+  const lines = fullTranscript.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return null;
+
+  const statements = lines.map(stripSpeaker);
+  const actionItems = lines.filter(line => ACTION_PATTERN.test(line)).map(withSpeaker);
+  const decisions = lines.filter(line => DECISION_PATTERN.test(line)).map(withSpeaker);
+  const questions = findQuestions(lines);
+  // Longer plain statements; decisions, tasks and questions have their own lists
+  const keyPoints = statements.filter(line =>
+    !DECISION_PATTERN.test(line) && !ACTION_PATTERN.test(line) && !line.includes('?') && line.split(/\s+/).length >= MIN_KEY_POINT_WORDS
+  );
+
+  const topics = topWords(fullTranscript, 8);
+
+  const summaryLines = options.final ? statements : statements.slice(-4);
+  const result: AnalysisResult = {
+    summary: `${options.final ? 'Full recording' : 'Discussion so far'} (${lines.length} lines): ${summaryLines.slice(0, 3).join(' ')}`,
+    keyPoints,
+    decisions,
+    questions,
+    actionItems,
+    topics,
+    // The stub can't fill preset sections, so paragraphs just say where they would come from
+    sections: (options.preset ?? BUILT_IN_PRESETS[0]).sections
+      .filter(section => section.format === 'text')
+      .map(({ id, title }) => ({ id, title, text: 'Generated by the local provider from keyword matching; switch to Gemini for real insights.' })),
+    rollingDigest: statements.slice(0, 3).join(' ')
+  };
+  return options.previous ? mergeRollingResult(options.previous, result) : result;
+};
+
+const unique = (items: string[]) => [...new Set(items)];
+
+// Same question asked again keeps whichever answer was found
+const mergeQuestions = (previous: AnalysisQuestion[], update: AnalysisQuestion[]): AnalysisQuestion[] => {
+  const merged = new Map(previous.map(question => [question.text, question]));
+  update.forEach(question => merged.set(question.text, { ...question, answer: question.answer ?? merged.get(question.text)?.answer }));
+  return [...merged.values()];
+};
+
+// Rolling updates only see the new lines, so fold them into the previous result
+const mergeRollingResult = (previous: AnalysisResult, update: AnalysisResult): AnalysisResult => ({
+  ...update,
+  keyPoints: unique([...previous.keyPoints, ...update.keyPoints]),
+  decisions: unique([...(previous.decisions ?? []), ...(update.decisions ?? [])]),
+  questions: mergeQuestions(previous.questions ?? [], update.questions ?? []),
+  actionItems: unique([...previous.actionItems, ...update.actionItems]),
+  topics: unique([...update.topics, ...previous.topics]).slice(0, 8),
+  rollingDigest: [previous.rollingDigest, update.rollingDigest].filter(Boolean).join(' ').slice(-MAX_DIGEST_LENGTH)
+});
+
+const QUESTION_STOP_WORDS = new Set(['what', 'who', 'when', 'where', 'which', 'how', 'why', 'did', 'does', 'the', 'and', 'about', 'for', 'was', 'were', 'are', 'is', 'our', 'we', 'they', 'that', 'this', 'with']);
+const CONTEXT_LINE_PATTERN = /^\[([\d:]+)\] (.*)$/;
+
+const keywords = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter(word => word.length > 2 && !QUESTION_STOP_WORDS.has(word));
+
+/**
+ * Answers by quoting the transcript lines sharing the most keywords with the question, streamed word by word.
+ */
+export async function* chatLocally(history: Message[], context: string): AsyncGenerator<string> {
+  await delay(SIMULATED_LATENCY_MS);
+  const question = [...history].reverse().find(message => message.role === 'user')?.text ?? '';
+  const terms = new Set(keywords(question));
+
+  const matches = context
+    .split('\n')
+    .map(line => line.match(CONTEXT_LINE_PATTERN))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => ({ label: match[1], text: match[2], score: keywords(match[2]).filter(word => terms.has(word)).length }))
+    .filter(line => line.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3);
+
+  const answer = matches.length === 0
+    ? "I couldn't find anything in the transcript about that."
+    : `The most relevant parts of the transcript:\n\n${matches.map(line => `- ${line.text} [${line.label}]`).join('\n')}`;
+
+  for (const word of answer.split(/(?<=\s)/)) {
+    await delay(20);
+    yield word;
+  }
+}
+
+// Rough script-based guess; Urdu and Persian also use Arabic script but can't be told apart this way
+const SCRIPT_LANGUAGES: { pattern: RegExp; code: string }[] = [
+  { pattern: /\p{Script=Arabic}/u, code: 'ar' },
+  { pattern: /\p{Script=Devanagari}/u, code: 'hi' },
+  { pattern: /\p{Script=Han}/u, code: 'zh' },
+  { pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u, code: 'ja' },
+];
+
+/**
+ * Detects the script of the text but can't translate, so the text is returned tagged with the target language.
+ */
+export const translateLocally = async (text: string, targetLanguage: string): Promise<TranslationResult> => {
+  await delay(SIMULATED_LATENCY_MS);
+  const sourceLanguage = SCRIPT_LANGUAGES.find(({ pattern }) => pattern.test(text))?.code ?? 'en';
+  const translated = sourceLanguage === targetLanguage
+    ? text
+    : text.split('\n').map(line => line.replace(/^([^:]{1,40}:\s*)?/, `$1[${targetLanguage}] `)).join('\n');
+  return { text: translated, sourceLanguage };
+};
+
+/**
+ * Cuts the transcript into fixed runs of chunks, titled by their most frequent capitalized words.
+ */
+export const detectChaptersLocally = async (chunkTexts: string[]): Promise<ChapterDraft[]> => {
+  await delay(SIMULATED_LATENCY_MS);
+  const drafts: ChapterDraft[] = [];
+  for (let start = 0; start < chunkTexts.length; start += CHUNKS_PER_CHAPTER) {
+    const group = chunkTexts.slice(start, start + CHUNKS_PER_CHAPTER);
+    const words = topWords(group.join('\n'), 2);
+    const firstLine = group.join('\n').split('\n').map(stripSpeaker).find(Boolean) ?? '';
+    drafts.push({
+      title: words.length ? words.join(' & ') : `Part ${drafts.length + 1}`,
+      summary: firstLine,
+      startIndex: start
+    });
+  }
+  return drafts;
+};
+
+export const localTranscriptionProvider: TranscriptionProvider = {
+  id: 'local',
+  label: 'Local scripted stub',
+  transcribe: transcribeLocally
+};
+
+export const localAnalysisProvider: AnalysisProvider = {
+  id: 'local',
+  label: 'Local heuristic stub',
+  analyze: analyzeLocally,
+  chat: chatLocally,
+  translate: translateLocally,
+  detectChapters: detectChaptersLocally
+};
@@ -0,0 +1,73 @@
+import { AnalysisResult, SpeakerRegistry, TranscriptChunk } from "../types";
+import { analysisToMarkdown } from "./analysisFormat";
+import { applySpeakerNames } from "./speakers";
+
+// Matches citations such as [10:42:05], [03:17] or [1:03:17, 1:04:02] in a chat answer
+const CITATION_GROUP_REGEX = /\[(\d{1,2}:\d{2}(?::\d{2})?(?:\s*[,;]\s*\d{1,2}:\d{2}(?::\d{2})?)*)\](?!\()/g;
+
+export const CITATION_HREF_PREFIX = '#cite-';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * The timestamp label a chunk is cited by: wall-clock HH:MM:SS for live sessions, or elapsed
+ * [H:]MM:SS when `elapsedFrom` is set (imported recordings), matching what TranscriptView shows.
+ */
+export const formatCitationLabel = (timestamp: number, elapsedFrom?: number): string => {
+  if (elapsedFrom === undefined) {
+    const date = new Date(timestamp);
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+  const totalSeconds = Math.max(0, Math.floor((timestamp - elapsedFrom) / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const mmss = `${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+/**
+ * Maps each citation label to the first chunk carrying it, so answers can link back to the transcript.
+ */
+export const buildCitationIndex = (chunks: TranscriptChunk[], elapsedFrom?: number): Map<string, string> => {
+  const index = new Map<string, string>();
+  for (const chunk of chunks) {
+    const label = formatCitationLabel(chunk.timestamp, elapsedFrom);
+    if (!index.has(label)) index.set(label, chunk.id);
+  }
+  return index;
+};
+
+/**
+ * Builds the grounding text sent with every chat question: the transcript with each line prefixed
+ * by its chunk's citation label, followed by the current analysis.
+ */
+export const buildChatContext = (
+  chunks: TranscriptChunk[],
+  registry: SpeakerRegistry,
+  analysis: AnalysisResult | null,
+  elapsedFrom?: number
+): string => {
+  const lines = chunks.flatMap(chunk => {
+    const label = formatCitationLabel(chunk.timestamp, elapsedFrom);
+    return applySpeakerNames(chunk.text, registry)
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => `[${label}] ${line}`);
+  });
+
+  const sections = [`TRANSCRIPT:\n${lines.join('\n') || '(empty)'}`];
+  if (analysis) sections.push(`CURRENT ANALYSIS:\n${analysisToMarkdown(analysis)}`);
+  return sections.join('\n\n');
+};
+
+/**
+ * Rewrites citations as Markdown links (`#cite-<label>`) so the chat renderer can make them clickable.
+ * Grouped citations such as [10:42:05, 10:43:10] become one link per timestamp.
+ */
+export const linkCitations = (text: string): string =>
+  text.replace(CITATION_GROUP_REGEX, (_, group: string) =>
+    group
+      .split(/\s*[,;]\s*/)
+      .map(label => `[${label}](${CITATION_HREF_PREFIX}${label})`)
+      .join(' ')
+  );
@@ -0,0 +1,110 @@
+import { AnalysisProvider, AnalysisProviderId, AnalysisResult, AnalyzeOptions, ChapterDraft, GlossaryEntry, Message, ProviderSettings, TranscriptionProvider, TranscriptionProviderId, TranslationResult } from "../types";
+import { geminiTranscriptionProvider, geminiAnalysisProvider } from "./geminiService";
+import { localTranscriptionProvider, localAnalysisProvider } from "./localProvider";
+import { createWhisperTranscriptionProvider } from "./whisperProvider";
+import { loadGlossary, saveGlossary, replaceGlossaryVariants } from "./glossary";
+
+const SETTINGS_STORAGE_KEY = 'providerSettings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  // Fall back to the offline stub when the build has no Gemini key
+  transcriptionProvider: process.env.API_KEY ? 'gemini' : 'local',
+  analysisProvider: process.env.API_KEY ? 'gemini' : 'local',
+  whisperEndpoint: 'http://localhost:8000',
+  whisperModel: 'whisper-1',
+  whisperApiKey: ''
+};
+
+export const TRANSCRIPTION_PROVIDER_OPTIONS: { id: TranscriptionProviderId; label: string }[] = [
+  { id: 'gemini', label: geminiTranscriptionProvider.label },
+  { id: 'whisper', label: 'Whisper-compatible HTTP' },
+  { id: 'local', label: localTranscriptionProvider.label },
+];
+
+export const ANALYSIS_PROVIDER_OPTIONS: { id: AnalysisProviderId; label: string }[] = [
+  { id: 'gemini', label: geminiAnalysisProvider.label },
+  { id: 'local', label: localAnalysisProvider.label },
+];
+
+export const loadProviderSettings = (): ProviderSettings => {
+  if (typeof window === 'undefined') return DEFAULT_PROVIDER_SETTINGS;
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+let activeSettings: ProviderSettings = loadProviderSettings();
+
+/**
+ * Switches the providers used by transcribeAudio/analyzeTranscript and persists the choice.
+ */
+export const applyProviderSettings = (settings: ProviderSettings) => {
+  activeSettings = settings;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+let activeGlossary: GlossaryEntry[] = loadGlossary();
+
+/**
+ * Replaces the workspace glossary used by transcribeAudio/analyzeTranscript and persists it.
+ */
+export const applyGlossary = (entries: GlossaryEntry[]) => {
+  activeGlossary = entries;
+  saveGlossary(entries);
+};
+
+export const getTranscriptionProvider = (settings: ProviderSettings = activeSettings): TranscriptionProvider => {
+  switch (settings.transcriptionProvider) {
+    case 'local':
+      return localTranscriptionProvider;
+    case 'whisper':
+      return createWhisperTranscriptionProvider({
+        endpoint: settings.whisperEndpoint,
+        model: settings.whisperModel,
+        apiKey: settings.whisperApiKey
+      });
+    default:
+      return geminiTranscriptionProvider;
+  }
+};
+
+export const getAnalysisProvider = (settings: ProviderSettings = activeSettings): AnalysisProvider => {
+  return settings.analysisProvider === 'local' ? localAnalysisProvider : geminiAnalysisProvider;
+};
+
+/**
+ * Transcribes an audio blob with the currently selected provider, then applies the glossary's
+ * explicit spelling fixes.
+ */
+export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
+  const glossary = activeGlossary;
+  const text = await getTranscriptionProvider().transcribe(audioBlob, { glossary });
+  return replaceGlossaryVariants(text, glossary);
+};
+
+/**
+ * Analyzes a transcript with the currently selected provider.
+ */
+export const analyzeTranscript = (fullTranscript: string, options?: AnalyzeOptions): Promise<AnalysisResult | null> =>
+  getAnalysisProvider().analyze(fullTranscript, { ...options, glossary: activeGlossary });
+
+/**
+ * Streams an answer about the transcript with the currently selected analysis provider.
+ */
+export const askAboutTranscript = (history: Message[], context: string): AsyncIterable<string> =>
+  getAnalysisProvider().chat(history, context);
+
+/**
+ * Translates transcript text with the currently selected analysis provider.
+ */
+export const translateText = (text: string, targetLanguage: string): Promise<TranslationResult> =>
+  getAnalysisProvider().translate(text, targetLanguage);
+
+/**
+ * Detects topic chapters in a transcript, given as one entry per chunk, with the current analysis provider.
+ */
+export const detectChapters = (chunkTexts: string[]): Promise<ChapterDraft[]> =>
+  getAnalysisProvider().detectChapters(chunkTexts);
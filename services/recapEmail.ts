@@ -0,0 +1,144 @@
+import { ActionItem, AnalysisResult, DecisionLogEntry, SpeakerRegistry } from "../types";
+import { resolveOwner, sortActionItems } from "./actionItems";
+import { listDecisionLog, openQuestions } from "./decisionLog";
+
+const TEMPLATE_STORAGE_KEY = 'recapTemplate';
+
+// Most mail clients truncate or reject mailto: links much longer than this
+export const MAILTO_MAX_LENGTH = 1900;
+
+export const RECAP_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'title', description: 'Session title' },
+  { key: 'date', description: 'Meeting date' },
+  { key: 'summary', description: 'Summary paragraph' },
+  { key: 'decisions', description: 'Decisions made, one per line' },
+  { key: 'openQuestions', description: 'Questions still unanswered, with who asked' },
+  { key: 'actionItems', description: 'Open tasks with owners and due dates' },
+  { key: 'owners', description: 'Open tasks grouped by owner' },
+  { key: 'topics', description: 'Names and topics, comma separated' },
+];
+
+export const DEFAULT_RECAP_TEMPLATE = `Subject: Recap: {{title}} ({{date}})
+
+Hi all,
+
+Thanks for joining. Here's a quick recap of {{title}}.
+
+Summary
+{{summary}}
+
+Decisions
+{{decisions}}
+
+Action items
+{{actionItems}}
+
+Still open
+{{openQuestions}}
+
+Let me know if I missed anything.
+`;
+
+export interface RecapData {
+  title: string;
+  startedAt: number;
+  analysis: AnalysisResult | null;
+  actionItems: ActionItem[];
+  decisionLog: DecisionLogEntry[];
+  registry: SpeakerRegistry;
+}
+
+export interface RecapDraft {
+  subject: string;
+  body: string;
+}
+
+export const loadRecapTemplate = (): string => {
+  try {
+    return localStorage.getItem(TEMPLATE_STORAGE_KEY) || DEFAULT_RECAP_TEMPLATE;
+  } catch {
+    return DEFAULT_RECAP_TEMPLATE;
+  }
+};
+
+export const saveRecapTemplate = (template: string) => {
+  if (template === DEFAULT_RECAP_TEMPLATE) localStorage.removeItem(TEMPLATE_STORAGE_KEY);
+  else localStorage.setItem(TEMPLATE_STORAGE_KEY, template);
+};
+
+const bullets = (items: string[], empty: string) => items.length ? items.map(item => `- ${item}`).join('\n') : empty;
+
+const buildValues = ({ title, startedAt, analysis, actionItems, decisionLog, registry }: RecapData): Record<string, string> => {
+  const open = sortActionItems(actionItems).filter(item => !item.done);
+  const ownerOf = (item: ActionItem) => item.owner ? resolveOwner(item.owner, registry) : '';
+
+  const byOwner = new Map<string, ActionItem[]>();
+  for (const item of open) {
+    const owner = ownerOf(item) || 'Unassigned';
+    byOwner.set(owner, [...(byOwner.get(owner) ?? []), item]);
+  }
+
+  return {
+    title,
+    date: new Date(startedAt).toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }),
+    summary: analysis?.summary || '(No summary yet.)',
+    // Sessions from before decisions were tracked only have them mixed into the key points
+    decisions: bullets(
+      analysis?.decisions ? listDecisionLog(decisionLog, 'decision').map(entry => entry.text) : analysis?.keyPoints ?? [],
+      '- (None recorded.)'
+    ),
+    openQuestions: bullets(
+      openQuestions(decisionLog).map(entry => entry.speaker ? `${entry.text} (${resolveOwner(entry.speaker, registry)})` : entry.text),
+      '- (None.)'
+    ),
+    actionItems: bullets(
+      open.map(item => {
+        const details = [ownerOf(item), item.dueDate && `due ${item.dueDate}`].filter(Boolean).join(', ');
+        return details ? `${item.text} (${details})` : item.text;
+      }),
+      '- (None.)'
+    ),
+    owners: byOwner.size
+      ? [...byOwner.entries()].map(([owner, items]) => `${owner}:\n${bullets(items.map(item => item.dueDate ? `${item.text} (due ${item.dueDate})` : item.text), '')}`).join('\n\n')
+      : '(No open tasks.)',
+    topics: analysis?.topics.join(', ') || '(None.)'
+  };
+};
+
+/**
+ * Fills a template's {{placeholders}}. An optional first "Subject:" line becomes the email subject.
+ * Unknown placeholders are left as typed so mistakes are visible in the preview.
+ */
+export const renderRecap = (template: string, data: RecapData): RecapDraft => {
+  const values = buildValues(data);
+  const filled = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+
+  const subjectLine = filled.match(/^Subject:[ \t]*(.*)\r?\n/i);
+  return subjectLine
+    ? { subject: subjectLine[1].trim(), body: filled.slice(subjectLine[0].length).replace(/^\s*\n/, '') }
+    : { subject: `Recap: ${data.title}`, body: filled };
+};
+
+// RFC 2047 encoded-word for non-ASCII header values
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}?=`;
+
+/**
+ * An unsent RFC 5322 message; X-Unsent makes Outlook and Apple Mail open it as an editable draft.
+ */
+export const buildEml = (draft: RecapDraft, to: string): string =>
+  [
+    `To: ${to}`,
+    `Subject: ${encodeHeader(draft.subject)}`,
+    'X-Unsent: 1',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    draft.body.replace(/\r?\n/g, '\r\n')
+  ].join('\r\n');
+
+export const buildMailtoUrl = (draft: RecapDraft, to: string): string =>
+  `mailto:${encodeURIComponent(to).replace(/%40/g, '@').replace(/%2C/g, ',')}?subject=${encodeURIComponent(draft.subject)}&body=${encodeURIComponent(draft.body)}`;
@@ -0,0 +1,36 @@
+import { ServiceError } from "./serviceError";
+
+interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+  // Checked before every retry so abandoned work stops spending quota
+  shouldContinue?: () => boolean;
+}
+
+export const isRetryableError = (error: unknown) => error instanceof ServiceError && error.retryable;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a task, retrying retryable ServiceErrors with exponential backoff and jitter.
+ * Non-retryable errors, and the last error once retries run out, are rethrown.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxRetries = 4, baseDelayMs = 1000, maxDelayMs = 30000, onRetry, shouldContinue } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delayMs = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+      onRetry?.(attempt + 1, error, delayMs);
+      await delay(delayMs);
+      if (shouldContinue && !shouldContinue()) throw error;
+    }
+  }
+};
@@ -0,0 +1,205 @@
+import { Session } from "../types";
+import { SPEAKER_LABEL_REGEX, resolveSpeaker, emptySpeakerRegistry, applySpeakerNames } from "./speakers";
+import { TextSegment } from "./transcriptSearch";
+
+/**
+ * A searchable piece of a saved session: one transcript chunk, or the session's latest analysis.
+ */
+export interface SearchDocument {
+  sessionId: string;
+  sessionTitle: string;
+  sessionStartedAt: number;
+  chunkId?: string; // Absent for analysis documents
+  timestamp: number;
+  text: string; // With speaker labels replaced by names, so names are searchable too
+  speakers: string[]; // Display names of the people speaking in the chunk
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  postings: Map<string, { doc: number; count: number }[]>;
+  lengths: number[]; // Token count per document
+  averageLength: number;
+  speakers: string[]; // Every speaker name in the index, for filtering
+}
+
+export interface SearchFilters {
+  from?: number; // Sessions starting at or after this time
+  to?: number; // Sessions starting before this time
+  speaker?: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: string;
+}
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+const PHRASE_BOOST = 1.5;
+const SNIPPET_RADIUS = 70;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'for', 'from', 'had', 'has', 'have',
+  'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their',
+  'them', 'then', 'there', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'who', 'will', 'with', 'you', 'your', 'about'
+]);
+
+/**
+ * Crude suffix stripping so "pricing", "prices" and "priced" meet at "pric". Only applied to longer
+ * words, and never leaves fewer than three letters.
+ */
+const stem = (word: string) => {
+  if (word.length <= 3) return word;
+  const stripped = word.replace(/(ing|ed|es|s)$/, '');
+  return (stripped.length >= 3 ? stripped : word).replace(/e$/, '');
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(WORD_PATTERN) ?? [])
+    .filter(word => !STOPWORDS.has(word))
+    .map(stem);
+
+const analysisText = (session: Session) => {
+  const result = session.analyses[session.analyses.length - 1]?.result;
+  if (!result) return '';
+  return [
+    result.summary,
+    ...result.keyPoints,
+    ...(result.decisions ?? []),
+    ...(result.questions ?? []).flatMap(question => [question.text, question.answer ?? '']),
+    ...result.actionItems,
+    ...result.topics,
+    ...(result.sections ?? []).flatMap(section => [section.text ?? '', ...(section.items ?? [])])
+  ].filter(Boolean).join('\n');
+};
+
+const toDocuments = (session: Session): SearchDocument[] => {
+  const registry = session.speakers ?? emptySpeakerRegistry();
+  const base = { sessionId: session.id, sessionTitle: session.title, sessionStartedAt: session.startedAt };
+
+  const chunks = session.chunks.map(chunk => {
+    const speakers = new Set<string>();
+    chunk.text.split('\n').forEach(line => {
+      const match = line.match(SPEAKER_LABEL_REGEX);
+      if (match) speakers.add(resolveSpeaker(registry, match[1]));
+    });
+    return { ...base, chunkId: chunk.id, timestamp: chunk.timestamp, text: applySpeakerNames(chunk.text, registry), speakers: [...speakers] };
+  });
+
+  const analysis = analysisText(session);
+  const latest = session.analyses[session.analyses.length - 1];
+  return analysis && latest
+    ? [...chunks, { ...base, timestamp: latest.createdAt, text: analysis, speakers: [] }]
+    : chunks;
+};
+
+/**
+ * Builds an inverted index over the transcripts and latest analyses of saved sessions.
+ */
+export const buildSearchIndex = (sessions: Session[]): SearchIndex => {
+  const documents = sessions.flatMap(toDocuments);
+  const postings = new Map<string, { doc: number; count: number }[]>();
+  const lengths: number[] = [];
+  const speakers = new Set<string>();
+
+  documents.forEach((document, doc) => {
+    const tokens = tokenize(document.text);
+    lengths.push(tokens.length);
+    document.speakers.forEach(speaker => speakers.add(speaker));
+
+    const counts = new Map<string, number>();
+    tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+    counts.forEach((count, token) => {
+      const list = postings.get(token);
+      if (list) list.push({ doc, count });
+      else postings.set(token, [{ doc, count }]);
+    });
+  });
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    documents,
+    postings,
+    lengths,
+    averageLength: documents.length ? totalLength / documents.length : 0,
+    speakers: [...speakers].sort((a, b) => a.localeCompare(b))
+  };
+};
+
+const matchesFilters = (document: SearchDocument, filters: SearchFilters) =>
+  (filters.from === undefined || document.sessionStartedAt >= filters.from)
+  && (filters.to === undefined || document.sessionStartedAt < filters.to)
+  && (!filters.speaker || document.speakers.includes(filters.speaker));
+
+// A window of text around the first word matching the query, with ellipses where it was cut
+const buildSnippet = (text: string, terms: Set<string>) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  let start = 0;
+  for (const match of flat.matchAll(WORD_PATTERN)) {
+    if (terms.has(stem(match[0].toLowerCase()))) {
+      start = match.index ?? 0;
+      break;
+    }
+  }
+  const from = Math.max(0, start - SNIPPET_RADIUS);
+  const to = Math.min(flat.length, start + SNIPPET_RADIUS * 2);
+  return `${from > 0 ? '…' : ''}${flat.slice(from, to).trim()}${to < flat.length ? '…' : ''}`;
+};
+
+/**
+ * Ranks documents against a keyword query with BM25, boosting ones that contain the query as an
+ * exact phrase. Documents must match at least one query term.
+ */
+export const searchSessions = (index: SearchIndex, query: string, filters: SearchFilters = {}, limit = 50): SearchResult[] => {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  const total = index.documents.length;
+  const scores = new Map<number, number>();
+  terms.forEach(term => {
+    const list = index.postings.get(term) ?? [];
+    const idf = Math.log(1 + (total - list.length + 0.5) / (list.length + 0.5));
+    list.forEach(({ doc, count }) => {
+      const norm = 1 - B + B * (index.lengths[doc] / (index.averageLength || 1));
+      const score = idf * (count * (K1 + 1)) / (count + K1 * norm);
+      scores.set(doc, (scores.get(doc) ?? 0) + score);
+    });
+  });
+
+  const phrase = query.trim().toLowerCase().replace(/\s+/g, ' ');
+  const termSet = new Set(terms);
+  return [...scores.entries()]
+    .filter(([doc]) => matchesFilters(index.documents[doc], filters))
+    .map(([doc, score]) => {
+      const document = index.documents[doc];
+      const hasPhrase = terms.length > 1 && document.text.toLowerCase().replace(/\s+/g, ' ').includes(phrase);
+      return { document, score: hasPhrase ? score * PHRASE_BOOST : score };
+    })
+    .sort((a, b) => b.score - a.score || b.document.timestamp - a.document.timestamp)
+    .slice(0, limit)
+    .map(result => ({ ...result, snippet: buildSnippet(result.document.text, termSet) }));
+};
+
+/**
+ * Splits a snippet into runs, marking words that match a query term.
+ */
+export const highlightTerms = (text: string, query: string): TextSegment[] => {
+  const terms = new Set(tokenize(query));
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (!terms.has(stem(match[0].toLowerCase()))) continue;
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), isMatch: false });
+    segments.push({ text: match[0], isMatch: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), isMatch: false });
+  return segments;
+};
@@ -0,0 +1,17 @@
+/**
+ * Error thrown by transcription/analysis providers. `retryable` marks transient failures
+ * (rate limits, 5xx, network) that are worth retrying with backoff.
+ */
+export class ServiceError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean = false) {
+    super(message);
+    this.name = 'ServiceError';
+    this.retryable = retryable;
+  }
+}
+
+// Gemini SDK errors only expose the HTTP status inside their message
+export const isRetryableStatusText = (errString: string) =>
+  /\b429\b/.test(errString) || /\b5\d\d\b/.test(errString) || /RESOURCE_EXHAUSTED|UNAVAILABLE/.test(errString);
@@ -0,0 +1,59 @@
+import { SessionAudioSegment, TranscriptChunk } from "../types";
+import { decodeAudioFile, encodeWav, TARGET_SAMPLE_RATE } from "./audioImport";
+
+export interface AudioPosition {
+  segment: SessionAudioSegment;
+  offsetMs: number; // Where in the segment the chunk starts
+}
+
+/**
+ * Finds the audio a transcript chunk was transcribed from. Live chunks share their segment's id;
+ * split chunks and imported recordings fall back to the segment playing at the chunk's timestamp.
+ */
+export const findChunkAudio = (segments: SessionAudioSegment[], chunk: TranscriptChunk): AudioPosition | null => {
+  const own = segments.find(segment => segment.id === chunk.id);
+  if (own) return { segment: own, offsetMs: 0 };
+
+  let match: SessionAudioSegment | null = null;
+  for (const segment of segments) {
+    if (segment.startedAt > chunk.timestamp) break;
+    match = segment;
+  }
+  return match && { segment: match, offsetMs: chunk.timestamp - match.startedAt };
+};
+
+// File extension for a stored segment's container
+export const audioExtension = (mimeType: string) => {
+  if (mimeType.includes('webm')) return 'webm';
+  if (mimeType.includes('mp4') || mimeType.includes('m4a')) return 'm4a';
+  if (mimeType.includes('mpeg') || mimeType.includes('mp3')) return 'mp3';
+  if (mimeType.includes('ogg')) return 'ogg';
+  return 'wav';
+};
+
+/**
+ * Joins a session's segments into one recording. A single segment (an imported file) is returned as is;
+ * live segments are separate recordings, so they're decoded, laid end to end with the overlap between
+ * consecutive segments removed, and encoded as one 16kHz mono WAV. Pauses are not kept as silence.
+ */
+export const buildFullRecording = async (segments: SessionAudioSegment[]): Promise<Blob> => {
+  if (segments.length === 1) return segments[0].blob;
+
+  const parts: Float32Array[] = [];
+  let endedAt = -Infinity; // Wall-clock end of the audio kept so far
+  for (const segment of [...segments].sort((a, b) => a.startedAt - b.startedAt)) {
+    const samples = await decodeAudioFile(segment.blob);
+    const overlapMs = Math.max(0, endedAt - segment.startedAt);
+    const skip = Math.min(samples.length, Math.round((overlapMs / 1000) * TARGET_SAMPLE_RATE));
+    parts.push(samples.subarray(skip));
+    endedAt = Math.max(endedAt, segment.startedAt + (samples.length / TARGET_SAMPLE_RATE) * 1000);
+  }
+
+  const joined = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return encodeWav(joined);
+};
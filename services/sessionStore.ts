@@ -0,0 +1,142 @@
+import { Session, SessionAudioSegment } from "../types";
+
+const DB_NAME = 'scribo';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+const AUDIO_STORE = 'audio'; // Added in version 2; kept apart so listing sessions doesn't load audio
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Thrown when another tab still has an older version of the database open, so it can't be upgraded.
+ */
+export class StorageBlockedError extends Error {
+  constructor() {
+    super("Session storage is being upgraded. Close other Scribo tabs and reload this one.");
+    this.name = 'StorageBlockedError';
+  }
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("Session storage is not available in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        const store = db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+        store.createIndex('sessionId', 'sessionId');
+      }
+    };
+
+    // The open stays pending until the other tab lets go; fail now so the user knows why, and
+    // retry on the next call
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new StorageBlockedError());
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // Let a newer version opened in another tab upgrade; the next call here reopens
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error("Could not open session storage."));
+    };
+  });
+
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a Promise that settles once the transaction completes
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = SESSIONS_STORE
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Session storage transaction aborted."));
+  });
+};
+
+/**
+ * Returns every saved session, most recent first.
+ */
+export const listSessions = async (): Promise<Session[]> => {
+  const sessions = await runRequest<Session[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const getSession = async (id: string): Promise<Session | null> => {
+  const session = await runRequest<Session | undefined>('readonly', store => store.get(id));
+  return session ?? null;
+};
+
+/**
+ * Inserts or replaces a session record.
+ */
+export const saveSession = async (session: Session): Promise<void> => {
+  await runRequest('readwrite', store => store.put(session));
+};
+
+/**
+ * Deletes a session together with its stored audio.
+ */
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+  await deleteSessionAudio(id);
+};
+
+export const saveAudioSegment = async (segment: SessionAudioSegment): Promise<void> => {
+  await runRequest('readwrite', store => store.put(segment), AUDIO_STORE);
+};
+
+/**
+ * Returns a session's audio segments in recording order.
+ */
+export const listAudioSegments = async (sessionId: string): Promise<SessionAudioSegment[]> => {
+  const segments = await runRequest<SessionAudioSegment[]>('readonly', store => store.index('sessionId').getAll(sessionId), AUDIO_STORE);
+  return segments.sort((a, b) => a.startedAt - b.startedAt);
+};
+
+export const deleteSessionAudio = async (sessionId: string): Promise<void> => {
+  // Walks the index inside one transaction, which only completes once the cursor is exhausted
+  await runRequest('readwrite', store => {
+    const request = store.index('sessionId').openKeyCursor(sessionId);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    return request;
+  }, AUDIO_STORE);
+};
@@ -0,0 +1,89 @@
+import { SpeakerRegistry, TranscriptChunk } from "../types";
+
+// Detects "Speaker X:" or "Speaker 1:" at start of line
+export const SPEAKER_LABEL_REGEX = /^(Speaker \d+|Speaker [A-Z]|Participant \d+|User):/i;
+
+export const emptySpeakerRegistry = (): SpeakerRegistry => ({ names: {}, merges: {} });
+
+/**
+ * Follows merge links to the label a speaker was ultimately merged into.
+ */
+export const canonicalSpeaker = (registry: SpeakerRegistry, label: string): string => {
+  const seen = new Set<string>();
+  let current = label;
+  while (registry.merges[current] && !seen.has(current)) {
+    seen.add(current);
+    current = registry.merges[current];
+  }
+  return current;
+};
+
+/**
+ * Display name for a raw transcript label: the person's name if one was set, else the canonical label.
+ */
+export const resolveSpeaker = (registry: SpeakerRegistry, label: string): string => {
+  const canonical = canonicalSpeaker(registry, label);
+  return registry.names[canonical] || canonical;
+};
+
+export const renameSpeaker = (registry: SpeakerRegistry, label: string, name: string): SpeakerRegistry => {
+  const canonical = canonicalSpeaker(registry, label);
+  const names = { ...registry.names };
+  const trimmed = name.trim();
+  if (trimmed && trimmed !== canonical) names[canonical] = trimmed;
+  else delete names[canonical];
+  return { ...registry, names };
+};
+
+/**
+ * Treats `label` as the same person as `target`. Any name given to `label` is dropped in favour of the target's.
+ */
+export const mergeSpeakers = (registry: SpeakerRegistry, label: string, target: string): SpeakerRegistry => {
+  const source = canonicalSpeaker(registry, label);
+  const destination = canonicalSpeaker(registry, target);
+  if (source === destination) return registry;
+
+  const names = { ...registry.names };
+  if (!names[destination] && names[source]) names[destination] = names[source];
+  delete names[source];
+  return { names, merges: { ...registry.merges, [source]: destination } };
+};
+
+/**
+ * Undoes a merge so the label is its own speaker again.
+ */
+export const unmergeSpeaker = (registry: SpeakerRegistry, label: string): SpeakerRegistry => {
+  const merges = { ...registry.merges };
+  delete merges[label];
+  return { ...registry, merges };
+};
+
+/**
+ * Every distinct raw speaker label in the transcript, in order of first appearance.
+ */
+export const listSpeakerLabels = (chunks: TranscriptChunk[]): string[] => {
+  const labels = new Set<string>();
+  for (const chunk of chunks) {
+    for (const line of chunk.text.split('\n')) {
+      const match = line.trim().match(SPEAKER_LABEL_REGEX);
+      if (match) labels.add(match[1]);
+    }
+  }
+  return [...labels];
+};
+
+/**
+ * Rewrites "Speaker N:" prefixes to the registered names, so analysis attributes items to real people.
+ */
+export const applySpeakerNames = (text: string, registry: SpeakerRegistry): string => {
+  if (Object.keys(registry.names).length === 0 && Object.keys(registry.merges).length === 0) return text;
+  return text
+    .split('\n')
+    .map(line => {
+      const match = line.match(SPEAKER_LABEL_REGEX);
+      if (!match) return line;
+      const resolved = resolveSpeaker(registry, match[1]);
+      return resolved === match[1] ? line : `${resolved}:${line.slice(match[0].length)}`;
+    })
+    .join('\n');
+};
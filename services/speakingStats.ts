@@ -0,0 +1,176 @@
+import { SpeakerRegistry, TranscriptChunk } from "../types";
+import { SPEAKER_LABEL_REGEX, canonicalSpeaker, resolveSpeaker } from "./speakers";
+
+// Someone who starts talking this soon after the previous speaker started, while that speaker was
+// mid-sentence, has cut them off
+export const INTERRUPTION_WINDOW_MS = 3000;
+
+// A line ending like this finished its sentence, so the next speaker took a normal turn
+const SENTENCE_END_REGEX = /[.!?…]["')\]]*$/;
+
+export interface SpeakerStats {
+  speaker: string; // Canonical label, following merges
+  name: string; // Display name
+  talkMs: number;
+  share: number; // Of all talk time, 0-1
+  words: number;
+  turns: number;
+  longestMonologueMs: number;
+  interruptions: number; // Times this speaker cut someone off
+  interrupted: number; // Times this speaker was cut off
+}
+
+// One uninterrupted turn, for the timeline
+export interface SpeakingTurn {
+  speaker: string;
+  start: number;
+  end: number;
+  chunkId: string; // Chunk the turn starts in
+}
+
+export interface SpeakingStats {
+  speakers: SpeakerStats[]; // Most talk time first
+  turns: SpeakingTurn[];
+  startedAt: number;
+  endedAt: number;
+  totalTalkMs: number;
+}
+
+export interface SpeakingStatsOptions {
+  // Longest a chunk is assumed to last; longer gaps to the next chunk were pauses or silence
+  maxChunkMs: number;
+  // When the meeting ended, bounding the last chunk; live meetings assume it runs its full length
+  endedAt?: number;
+}
+
+interface TimedLine {
+  speaker: string;
+  start: number;
+  end: number;
+  words: number;
+  chunkId: string;
+  endsSentence: boolean;
+}
+
+const countWords = (text: string) => text.match(/[\p{L}\p{N}']+/gu)?.length ?? 0;
+
+/**
+ * Chunks only carry a start time, so each one is assumed to last until the next starts (capped at
+ * `maxChunkMs`), and its time is shared between its lines by word count. Lines without a speaker
+ * label continue the previous line's speaker.
+ */
+const timeLines = (chunks: TranscriptChunk[], registry: SpeakerRegistry, { maxChunkMs, endedAt }: SpeakingStatsOptions): TimedLine[] => {
+  const sorted = [...chunks].sort((a, b) => a.timestamp - b.timestamp);
+  const timed: TimedLine[] = [];
+  let speaker: string | null = null;
+
+  sorted.forEach((chunk, index) => {
+    const next = sorted[index + 1]?.timestamp ?? (endedAt !== undefined && endedAt > chunk.timestamp ? endedAt : Infinity);
+    const duration = Math.min(next - chunk.timestamp, maxChunkMs);
+    const lines = chunk.text.split('\n').map(line => line.trim()).filter(Boolean).flatMap(line => {
+      const match = line.match(SPEAKER_LABEL_REGEX);
+      if (match) speaker = canonicalSpeaker(registry, match[1]);
+      if (!speaker) return [];
+      return [{ speaker, words: Math.max(1, countWords(match ? line.replace(SPEAKER_LABEL_REGEX, '') : line)), endsSentence: SENTENCE_END_REGEX.test(line) }];
+    });
+
+    const totalWords = lines.reduce((sum, line) => sum + line.words, 0);
+    let start = chunk.timestamp;
+    for (const line of lines) {
+      const end = start + duration * (line.words / totalWords);
+      timed.push({ ...line, start, end, chunkId: chunk.id });
+      start = end;
+    }
+  });
+
+  return timed;
+};
+
+/**
+ * Per-speaker participation over the transcript: estimated talk time, words, turns, the longest
+ * single turn and interruptions. Merged speaker labels count as one person.
+ */
+export const computeSpeakingStats = (chunks: TranscriptChunk[], registry: SpeakerRegistry, options: SpeakingStatsOptions): SpeakingStats | null => {
+  const lines = timeLines(chunks, registry, options);
+  if (lines.length === 0) return null;
+
+  const turns: (SpeakingTurn & { words: number; endsSentence: boolean })[] = [];
+  for (const line of lines) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === line.speaker) {
+      last.end = line.end;
+      last.words += line.words;
+      last.endsSentence = line.endsSentence;
+    } else {
+      turns.push({ speaker: line.speaker, start: line.start, end: line.end, chunkId: line.chunkId, words: line.words, endsSentence: line.endsSentence });
+    }
+  }
+
+  const bySpeaker = new Map<string, SpeakerStats>();
+  const statsFor = (speaker: string) => {
+    let stats = bySpeaker.get(speaker);
+    if (!stats) {
+      stats = { speaker, name: resolveSpeaker(registry, speaker), talkMs: 0, share: 0, words: 0, turns: 0, longestMonologueMs: 0, interruptions: 0, interrupted: 0 };
+      bySpeaker.set(speaker, stats);
+    }
+    return stats;
+  };
+
+  turns.forEach((turn, index) => {
+    const stats = statsFor(turn.speaker);
+    const duration = turn.end - turn.start;
+    stats.talkMs += duration;
+    stats.words += turn.words;
+    stats.turns += 1;
+    stats.longestMonologueMs = Math.max(stats.longestMonologueMs, duration);
+
+    const previous = turns[index - 1];
+    // Start times within a chunk are only estimated from word counts, so a quick reply to a finished
+    // sentence isn't an interruption
+    if (previous && !previous.endsSentence && turn.start - previous.start < INTERRUPTION_WINDOW_MS) {
+      stats.interruptions += 1;
+      statsFor(previous.speaker).interrupted += 1;
+    }
+  });
+
+  const totalTalkMs = [...bySpeaker.values()].reduce((sum, stats) => sum + stats.talkMs, 0);
+  bySpeaker.forEach(stats => { stats.share = totalTalkMs ? stats.talkMs / totalTalkMs : 0; });
+
+  return {
+    speakers: [...bySpeaker.values()].sort((a, b) => b.talkMs - a.talkMs || a.name.localeCompare(b.name)),
+    turns: turns.map(({ words, endsSentence, ...turn }) => turn),
+    startedAt: turns[0].start,
+    endedAt: turns[turns.length - 1].end,
+    totalTalkMs
+  };
+};
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mmss = `${Math.floor((totalSeconds % 3600) / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss.padStart(5, '0')}` : mmss;
+};
+
+/**
+ * Participation table for the summary download.
+ */
+export const speakingStatsToMarkdown = (stats: SpeakingStats): string => {
+  const rows = stats.speakers.map(speaker => `| ${[
+    speaker.name,
+    formatDuration(speaker.talkMs),
+    `${Math.round(speaker.share * 100)}%`,
+    speaker.words,
+    speaker.turns,
+    formatDuration(speaker.longestMonologueMs),
+    speaker.interruptions
+  ].join(' | ')} |`);
+  return [
+    '### Participation',
+    '| Speaker | Talk time | Share | Words | Turns | Longest monologue | Interruptions |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...rows,
+    '',
+    '_Talk time is estimated from transcript timestamps and word counts._'
+  ].join('\n') + '\n';
+};
@@ -0,0 +1,66 @@
+import { TranscriptChunk } from "../types";
+import { withChunkText } from "./translation";
+
+/**
+ * A manual transcript edit: the chunks it replaced and the chunks that replaced them. Patches are
+ * applied by chunk id, so undoing an edit doesn't disturb chunks committed since.
+ */
+export interface TranscriptPatch {
+  before: TranscriptChunk[];
+  after: TranscriptChunk[];
+}
+
+const byTimestamp = (a: TranscriptChunk, b: TranscriptChunk) => a.timestamp - b.timestamp;
+
+export const applyPatch = (chunks: TranscriptChunk[], patch: TranscriptPatch): TranscriptChunk[] => {
+  const removed = new Set(patch.before.map(chunk => chunk.id));
+  return [...chunks.filter(chunk => !removed.has(chunk.id)), ...patch.after].sort(byTimestamp);
+};
+
+export const invertPatch = (patch: TranscriptPatch): TranscriptPatch => ({ before: patch.after, after: patch.before });
+
+const originalOf = (chunk: TranscriptChunk) => chunk.originalText ?? chunk.text;
+
+export const editChunkPatch = (chunk: TranscriptChunk, text: string, now: number = Date.now()): TranscriptPatch => ({
+  before: [chunk],
+  after: [{ ...withChunkText(chunk, text), originalText: originalOf(chunk), editedAt: now }]
+});
+
+/**
+ * Splits a chunk at a character offset. The second half is timestamped proportionally between this
+ * chunk and the next one so it stays in place; both halves keep the whole original text for audit.
+ * Returns null when the chunks are less than 2ms apart, since the tail couldn't sit strictly between them.
+ */
+export const splitChunkPatch = (
+  chunk: TranscriptChunk,
+  offset: number,
+  next: TranscriptChunk | undefined,
+  now: number = Date.now()
+): TranscriptPatch | null => {
+  const head = chunk.text.slice(0, offset).trim();
+  const tail = chunk.text.slice(offset).trim();
+  if (!head || !tail) return null;
+
+  const span = next ? next.timestamp - chunk.timestamp : tail.length * 60;
+  if (span < 2) return null;
+  const tailTimestamp = chunk.timestamp + Math.max(1, Math.min(span - 1, Math.round(span * (offset / chunk.text.length))));
+
+  return {
+    before: [chunk],
+    after: [
+      { ...withChunkText(chunk, head), originalText: originalOf(chunk), editedAt: now },
+      { ...withChunkText(chunk, tail), id: `${chunk.id}-split-${now}`, timestamp: tailTimestamp, originalText: originalOf(chunk), editedAt: now }
+    ]
+  };
+};
+
+export const mergeChunksPatch = (first: TranscriptChunk, second: TranscriptChunk, now: number = Date.now()): TranscriptPatch => ({
+  before: [first, second],
+  after: [{
+    ...withChunkText(first, `${first.text.trim()}\n${second.text.trim()}`),
+    originalText: `${originalOf(first).trim()}\n${originalOf(second).trim()}`,
+    editedAt: now
+  }]
+});
+
+export const deleteChunkPatch = (chunk: TranscriptChunk): TranscriptPatch => ({ before: [chunk], after: [] });
@@ -0,0 +1,266 @@
+import { Session, TranscriptChunk, SpeakerRegistry, ActionItem, Chapter, DecisionLogEntry, AnalysisVersion, AudioSourceMode } from "../types";
+import { SPEAKER_LABEL_REGEX, emptySpeakerRegistry, resolveSpeaker } from "./speakers";
+import { validateAnalysisResult } from "./analysisFormat";
+import { chapterStarts } from "./chapters";
+
+export type TranscriptExportFormat = 'txt' | 'md' | 'json' | 'srt' | 'vtt';
+
+export const TRANSCRIPT_EXPORT_FORMATS: { format: TranscriptExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'txt', label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'md', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'json', label: 'JSON (re-importable)', extension: 'json', mimeType: 'application/json' },
+  { format: 'srt', label: 'SubRip subtitles (SRT)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT subtitles', extension: 'vtt', mimeType: 'text/vtt' },
+];
+
+const JSON_FORMAT_ID = 'scribo-transcript';
+const JSON_FORMAT_VERSION = 1;
+
+// Rough speaking rate used to size the last cue, which has no following chunk to end at
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1000;
+
+interface TranscriptLine {
+  speaker?: string; // Resolved display name
+  text: string;
+}
+
+interface Cue extends TranscriptLine {
+  start: number; // ms from session start
+  end: number;
+  chapter?: Chapter; // Set on the first cue of a chapter
+}
+
+const splitChunkLines = (chunk: TranscriptChunk, registry: SpeakerRegistry): TranscriptLine[] =>
+  chunk.text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = line.match(SPEAKER_LABEL_REGEX);
+      if (!match) return { text: line };
+      return { speaker: resolveSpeaker(registry, match[1]), text: line.slice(match[0].length).trim() };
+    });
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const sessionBase = (session: Session) =>
+  Math.min(session.startedAt, session.chunks[0]?.timestamp ?? session.startedAt);
+
+/**
+ * Turns chunks into timed cues. Each chunk spans until the next one starts, and its time is
+ * shared between its speaker lines in proportion to their word counts.
+ */
+const buildCues = (session: Session): Cue[] => {
+  const registry = session.speakers ?? emptySpeakerRegistry();
+  const base = sessionBase(session);
+  const starts = chapterStarts(session.chapters ?? [], session.chunks);
+  const cues: Cue[] = [];
+
+  session.chunks.forEach((chunk, index) => {
+    const lines = splitChunkLines(chunk, registry);
+    if (lines.length === 0) return;
+
+    const totalWords = lines.reduce((sum, line) => sum + Math.max(1, countWords(line.text)), 0);
+    const start = chunk.timestamp - base;
+    const next = session.chunks[index + 1];
+    const estimatedEnd = start + (totalWords / WORDS_PER_SECOND) * 1000;
+    const end = Math.max(start + MIN_CUE_MS, next ? next.timestamp - base : estimatedEnd);
+
+    let cursor = start;
+    lines.forEach((line, lineIndex) => {
+      const share = Math.max(1, countWords(line.text)) / totalWords;
+      const lineEnd = cursor + (end - start) * share;
+      const chapter = lineIndex === 0 ? starts.get(chunk.id) : undefined;
+      cues.push({ ...line, start: Math.round(cursor), end: Math.round(lineEnd), chapter });
+      cursor = lineEnd;
+    });
+  });
+
+  return cues;
+};
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+const formatCueTime = (ms: number, separator: ',' | '.') => {
+  const safe = Math.max(0, Math.round(ms));
+  const hours = Math.floor(safe / 3600000);
+  const minutes = Math.floor((safe % 3600000) / 60000);
+  const seconds = Math.floor((safe % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(safe % 1000, 3)}`;
+};
+
+const formatClock = (ms: number) => formatCueTime(ms, '.').slice(0, 8);
+
+const withSpeaker = (line: TranscriptLine) => line.speaker ? `${line.speaker}: ${line.text}` : line.text;
+
+const toPlainText = (session: Session) => {
+  const registry = session.speakers ?? emptySpeakerRegistry();
+  const base = sessionBase(session);
+  const starts = chapterStarts(session.chapters ?? [], session.chunks);
+  const header = `${session.title}\n${new Date(session.startedAt).toLocaleString()}\n`;
+  const body = session.chunks.flatMap(chunk => {
+    const chapter = starts.get(chunk.id);
+    const lines = splitChunkLines(chunk, registry).map(line => `[${formatClock(chunk.timestamp - base)}] ${withSpeaker(line)}`);
+    return chapter ? ['', `== ${chapter.title} ==`, ...(chapter.summary ? [chapter.summary] : []), '', ...lines] : lines;
+  });
+  return `${header}\n${body.join('\n')}\n`;
+};
+
+const toMarkdown = (session: Session) => {
+  const registry = session.speakers ?? emptySpeakerRegistry();
+  const base = sessionBase(session);
+  const starts = chapterStarts(session.chapters ?? [], session.chunks);
+  const startTimes = new Map(session.chunks.map(chunk => [chunk.id, formatClock(chunk.timestamp - base)]));
+
+  const contents = starts.size > 0
+    ? `## Chapters\n\n${[...starts.entries()].map(([chunkId, chapter]) => `- \`${startTimes.get(chunkId)}\` ${chapter.title}`).join('\n')}\n\n`
+    : '';
+  const body = session.chunks.flatMap(chunk => {
+    const chapter = starts.get(chunk.id);
+    const heading = chapter ? [`## ${chapter.title}${chapter.summary ? `\n\n_${chapter.summary}_` : ''}`] : [];
+    return [...heading, ...splitChunkLines(chunk, registry).map(line => {
+      const time = `\`${formatClock(chunk.timestamp - base)}\``;
+      return line.speaker ? `${time} **${line.speaker}:** ${line.text}` : `${time} ${line.text}`;
+    })];
+  });
+  return `# ${session.title}\n\n_Recorded ${new Date(session.startedAt).toLocaleString()}_\n\n${contents}${body.join('\n\n')}\n`;
+};
+
+// SRT has no chapter markers, so a chapter's title leads its first cue
+const toSrt = (session: Session) =>
+  buildCues(session)
+    .map((cue, index) => {
+      const text = cue.chapter ? `[${cue.chapter.title}]\n${withSpeaker(cue)}` : withSpeaker(cue);
+      return `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${text}\n`;
+    })
+    .join('\n');
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toWebVtt = (session: Session) => {
+  const cues = buildCues(session).map(cue => {
+    const text = cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}` : escapeVtt(cue.text);
+    // NOTE blocks can't contain "-->"
+    const note = cue.chapter ? `NOTE Chapter: ${cue.chapter.title.replace(/-->/g, '->')}\n\n` : '';
+    return `${note}${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${text}\n`;
+  });
+  return `WEBVTT\n\n${cues.join('\n')}`;
+};
+
+const toJson = (session: Session) =>
+  JSON.stringify({
+    format: JSON_FORMAT_ID,
+    version: JSON_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session
+  }, null, 2);
+
+/**
+ * Serializes a session's transcript in the given format. Speaker labels use registered names,
+ * except in JSON, which keeps raw labels plus the registry so it can be re-imported losslessly.
+ */
+export const exportTranscript = (session: Session, format: TranscriptExportFormat): string => {
+  switch (format) {
+    case 'txt': return toPlainText(session);
+    case 'md': return toMarkdown(session);
+    case 'json': return toJson(session);
+    case 'srt': return toSrt(session);
+    case 'vtt': return toWebVtt(session);
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isChunk = (value: unknown): value is TranscriptChunk =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.text === 'string' && typeof value.timestamp === 'number';
+
+const isActionItem = (value: unknown): value is ActionItem =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.text === 'string';
+
+const isDecisionLogEntry = (value: unknown): value is DecisionLogEntry =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.text === 'string' && (value.kind === 'decision' || value.kind === 'question');
+
+const isChapter = (value: unknown): value is Chapter =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.title === 'string'
+  && typeof value.startChunkId === 'string' && typeof value.endChunkId === 'string';
+
+const isSpeakerRegistry = (value: unknown): value is SpeakerRegistry =>
+  isRecord(value) && isRecord(value.names) && isRecord(value.merges);
+
+const AUDIO_SOURCES: AudioSourceMode[] = ['system-and-mic', 'mic-only', 'file'];
+
+const isAudioSource = (value: unknown): value is AudioSourceMode =>
+  AUDIO_SOURCES.some(source => source === value);
+
+const toAnalysisVersion = (version: unknown): AnalysisVersion[] => {
+  if (!isRecord(version)) return [];
+  const result = validateAnalysisResult(version.result);
+  if (!result) return [];
+  return [{
+    result,
+    createdAt: Number(version.createdAt) || 0,
+    transcriptLength: Number(version.transcriptLength) || 0,
+    analyzedChunkIds: Array.isArray(version.analyzedChunkIds) && version.analyzedChunkIds.every((id: unknown) => typeof id === 'string')
+      ? version.analyzedChunkIds
+      : undefined,
+    presetId: typeof version.presetId === 'string' ? version.presetId : undefined,
+    outputLanguage: typeof version.outputLanguage === 'string' ? version.outputLanguage : undefined
+  }];
+};
+
+/**
+ * Parses a JSON export back into a Session. Throws with a user-facing message if the file isn't one.
+ */
+export const parseTranscriptJson = (json: string): Session => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.format !== JSON_FORMAT_ID || !isRecord(data.session)) {
+    throw new Error("This JSON file is not a Scribo transcript export.");
+  }
+  if (typeof data.version === 'number' && data.version > JSON_FORMAT_VERSION) {
+    throw new Error("This transcript was exported by a newer version of Scribo.");
+  }
+
+  const raw = data.session;
+  const chunks = raw.chunks;
+  if (!Array.isArray(chunks) || !chunks.every(isChunk)) {
+    throw new Error("The transcript export is missing or has malformed chunks.");
+  }
+
+  const analyses = Array.isArray(raw.analyses) ? raw.analyses.flatMap(toAnalysisVersion) : [];
+
+  return {
+    id: String(raw.id ?? Date.now()),
+    title: typeof raw.title === 'string' && raw.title ? raw.title : 'Imported transcript',
+    startedAt: typeof raw.startedAt === 'number' ? raw.startedAt : chunks[0]?.timestamp ?? Date.now(),
+    endedAt: typeof raw.endedAt === 'number' ? raw.endedAt : undefined,
+    chunks: chunks.map(chunk => ({ ...chunk, isFinal: chunk.isFinal ?? true })),
+    analyses,
+    audioSource: isAudioSource(raw.audioSource) ? raw.audioSource : 'file',
+    speakers: isSpeakerRegistry(raw.speakers) ? raw.speakers : undefined,
+    actionItems: Array.isArray(raw.actionItems)
+      ? raw.actionItems.filter(isActionItem).map(item => ({ ...item, done: !!item.done, createdAt: Number(item.createdAt) || 0 }))
+      : undefined,
+    decisionLog: Array.isArray(raw.decisionLog)
+      ? raw.decisionLog.filter(isDecisionLogEntry).map(entry => ({
+          ...entry,
+          resolved: entry.kind === 'question' && !!entry.resolved,
+          timestamp: Number(entry.timestamp) || 0,
+          createdAt: Number(entry.createdAt) || 0
+        }))
+      : undefined,
+    transcriptEditedAt: typeof raw.transcriptEditedAt === 'number' ? raw.transcriptEditedAt : undefined,
+    analysisPresetId: typeof raw.analysisPresetId === 'string' ? raw.analysisPresetId : undefined,
+    targetLanguage: typeof raw.targetLanguage === 'string' && raw.targetLanguage ? raw.targetLanguage : undefined,
+    chapters: Array.isArray(raw.chapters)
+      ? raw.chapters.filter(isChapter).map(chapter => ({ ...chapter, summary: typeof chapter.summary === 'string' ? chapter.summary : '' }))
+      : undefined
+  };
+};
@@ -0,0 +1,42 @@
+import { SPEAKER_LABEL_REGEX } from "./speakers";
+
+export interface TextSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const queryPattern = (query: string) => new RegExp(escapeRegExp(query.trim()), 'giu');
+
+/**
+ * Splits text into matching and non-matching runs for a case-insensitive literal query.
+ */
+export const highlightMatches = (text: string, query: string): TextSegment[] => {
+  if (!query.trim()) return [{ text, isMatch: false }];
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(queryPattern(query))) {
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), isMatch: false });
+    segments.push({ text: match[0], isMatch: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), isMatch: false });
+  return segments;
+};
+
+// The text a transcript line shows, i.e. without its speaker label
+export const displayedLines = (text: string): string[] => text
+  .split('\n')
+  .filter(line => line.trim() !== '')
+  .map(line => SPEAKER_LABEL_REGEX.test(line) ? line.replace(SPEAKER_LABEL_REGEX, '').trim() : line);
+
+/**
+ * Counts matches in the text a chunk displays, in the same order TranscriptView highlights them.
+ */
+export const countMatches = (text: string, query: string): number => {
+  if (!query.trim()) return 0;
+  const pattern = queryPattern(query);
+  return displayedLines(text).reduce((sum, line) => sum + [...line.matchAll(pattern)].length, 0);
+};
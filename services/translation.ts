@@ -0,0 +1,52 @@
+import { TranscriptChunk } from "../types";
+
+const TARGET_LANGUAGE_STORAGE_KEY = 'targetLanguage';
+
+export const TRANSLATION_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'ur', name: 'Urdu' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'fa', name: 'Persian' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+];
+
+const RTL_LANGUAGES = new Set(['ar', 'ur', 'fa', 'he', 'ps', 'sd']);
+
+// Display name for a language code, falling back to the code itself for languages outside the list
+export const languageName = (code: string) =>
+  TRANSLATION_LANGUAGES.find(language => language.code === code)?.name ?? code.toUpperCase();
+
+export const isRtlLanguage = (code: string | undefined) => !!code && RTL_LANGUAGES.has(code);
+
+// The language new sessions translate into: the last one picked, or none
+export const loadTargetLanguage = (): string => {
+  try {
+    return localStorage.getItem(TARGET_LANGUAGE_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveTargetLanguage = (code: string) => {
+  if (code) localStorage.setItem(TARGET_LANGUAGE_STORAGE_KEY, code);
+  else localStorage.removeItem(TARGET_LANGUAGE_STORAGE_KEY);
+};
+
+export const needsTranslation = (chunk: TranscriptChunk, targetLanguage: string) =>
+  !!targetLanguage && !!chunk.text.trim() && chunk.translatedTo !== targetLanguage;
+
+/**
+ * Replaces a chunk's text, dropping the translation made from the old text.
+ */
+export const withChunkText = (chunk: TranscriptChunk, text: string): TranscriptChunk => {
+  if (chunk.text === text) return chunk;
+  const { translatedText, translatedTo, ...rest } = chunk;
+  return { ...rest, text };
+};
@@ -0,0 +1,60 @@
+import { TranscribeOptions, TranscriptionProvider } from "../types";
+import { ServiceError } from "./serviceError";
+import { formatGlossaryHint } from "./glossary";
+
+// Whisper only reads the last ~224 tokens of its prompt
+const MAX_PROMPT_LENGTH = 800;
+
+interface WhisperConfig {
+  endpoint: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Transcription against a self-hosted, OpenAI-compatible Whisper server (POST {endpoint}/v1/audio/transcriptions).
+ * Whisper has no diarization, so the output carries no speaker labels.
+ */
+export const createWhisperTranscriptionProvider = (config: WhisperConfig): TranscriptionProvider => ({
+  id: 'whisper',
+  label: 'Whisper-compatible HTTP',
+  transcribe: async (audioBlob: Blob, options: TranscribeOptions = {}) => {
+    if (!config.endpoint.trim()) {
+      throw new Error("Whisper endpoint is not configured. Set it in Settings.");
+    }
+
+    const extension = audioBlob.type.includes('wav') ? 'wav' : audioBlob.type.includes('mp4') ? 'mp4' : 'webm';
+    const form = new FormData();
+    form.append('file', audioBlob, `chunk.${extension}`);
+    form.append('model', config.model || 'whisper-1');
+    form.append('response_format', 'json');
+    // Whisper has no glossary parameter, but spells words it sees in the prompt the same way
+    const hint = formatGlossaryHint(options.glossary ?? [], MAX_PROMPT_LENGTH);
+    if (hint) form.append('prompt', hint);
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.endpoint.replace(/\/+$/, '')}/v1/audio/transcriptions`, {
+        method: 'POST',
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined,
+        body: form
+      });
+    } catch (error) {
+      console.error("Whisper request error:", error);
+      throw new ServiceError("Could not reach the Whisper endpoint.", true);
+    }
+
+    if (!response.ok) {
+      console.error("Whisper transcription error:", response.status, await response.text().catch(() => ''));
+      let message = "Transcription failed.";
+      if (response.status === 401 || response.status === 403) message = "Whisper endpoint rejected the API key.";
+      if (response.status === 429) message = "Usage limit exceeded. Please wait a moment.";
+      if (response.status >= 500) message = "Whisper service temporarily unavailable.";
+      throw new ServiceError(message, response.status === 429 || response.status >= 500);
+    }
+
+    const data: unknown = await response.json();
+    const text = data && typeof data === 'object' ? (data as Record<string, unknown>).text : undefined;
+    return typeof text === 'string' ? text.trim() : "";
+  }
+});
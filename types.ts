@@ -3,6 +3,22 @@ export interface TranscriptChunk {
   text: string;
   timestamp: number;
   isFinal: boolean;
+  originalText?: string; // Machine transcription, kept for audit once the text has been edited by hand
+  editedAt?: number;
+  sourceLanguage?: string; // Language detected in the chunk, as an ISO 639-1 code
+  translatedText?: string; // `text` in the session's target language; cleared whenever `text` changes
+  translatedTo?: string; // Target language code `translatedText` was produced for
+}
+
+// An audio chunk that has been captured but not yet committed to the transcript
+export interface PendingChunk {
+  sequence: number;
+  timestamp: number; // When the audio was captured
+  status: 'pending' | 'retrying' | 'failed';
+  attempts: number;
+  error?: string;
+  overlapsPrevious?: boolean; // The audio starts before the previous segment ended, so its first words may repeat
+  sessionEpoch?: number; // Workspace the audio was recorded for, so a result arriving after a session switch is dropped
 }
 
 export interface AnalysisResult {
@@ -10,10 +26,208 @@ export interface AnalysisResult {
   keyPoints: string[];
   actionItems: string[];
   topics: string[];
-  projectInsights: string;
+  // Absent on analyses made before decisions and questions were split out of the key points
+  decisions?: string[];
+  questions?: AnalysisQuestion[];
+  sections?: AnalysisSection[]; // Extra sections defined by the analysis preset
+  // Hackathon fields from analyses made before presets; newer ones carry these as sections
+  projectInsights?: string;
   polishedIdea?: string;
+  // Compact chronological notes on the meeting so far, carried into the next rolling update. Not displayed.
+  rollingDigest?: string;
+}
+
+// A question raised in the meeting, with its answer once one was given
+export interface AnalysisQuestion {
+  text: string; // May start with the asker, e.g. "Sam: Does the dashboard track that step?"
+  answer?: string; // Absent while the question is open
+}
+
+// One preset-specific section of an analysis: a paragraph, or a list when `items` is set
+export interface AnalysisSection {
+  id: string;
+  title: string;
+  text?: string;
+  items?: string[];
+}
+
+export type AnalysisSectionFormat = 'text' | 'list';
+
+export interface AnalysisSectionDefinition {
+  id: string; // JSON key the model fills in
+  title: string;
+  format: AnalysisSectionFormat;
+  instructions: string; // What the model should put in the section
+}
+
+// Meeting-type specific instructions and sections, on top of the common summary/key points/action items/topics
+export interface AnalysisPreset {
+  id: string;
+  name: string;
+  description: string;
+  instructions: string; // Added to the analysis system prompt
+  sections: AnalysisSectionDefinition[];
+  builtIn?: boolean;
+}
+
+export interface AnalyzeOptions {
+  // Marks the transcript as a complete recording and asks for the final polished summary
+  final?: boolean;
+  // Rolling update: the transcript passed is only the text added since this analysis was produced
+  previous?: AnalysisResult;
+  // Preferred spellings for names and jargon
+  glossary?: GlossaryEntry[];
+  // Meeting type; defaults to the hackathon preset
+  preset?: AnalysisPreset;
+  // Language code the analysis is written in, whatever is spoken; defaults to the transcript's language
+  outputLanguage?: string;
 }
 
+export interface TranslationResult {
+  text: string;
+  sourceLanguage: string; // ISO 639-1 code
+}
+
+export interface TranscribeOptions {
+  // Vocabulary hint for the speech model; variants are also replaced after transcription
+  glossary?: GlossaryEntry[];
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  label: string;
+  transcribe: (audioBlob: Blob, options?: TranscribeOptions) => Promise<string>;
+}
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  analyze: (fullTranscript: string, options?: AnalyzeOptions) => Promise<AnalysisResult | null>;
+  // Streams an answer to the last user message, grounded in `context` (timestamped transcript plus analysis)
+  chat: (history: Message[], context: string) => AsyncIterable<string>;
+  // Translates transcript text (keeping "Speaker N:" labels) and detects its language
+  translate: (text: string, targetLanguage: string) => Promise<TranslationResult>;
+  // Splits the transcript, given as one entry per chunk, into chapters at topic changes
+  detectChapters: (chunkTexts: string[]) => Promise<ChapterDraft[]>;
+}
+
+export type TranscriptionProviderId = 'gemini' | 'local' | 'whisper';
+export type AnalysisProviderId = 'gemini' | 'local';
+
+export interface ProviderSettings {
+  transcriptionProvider: TranscriptionProviderId;
+  analysisProvider: AnalysisProviderId;
+  whisperEndpoint: string; // Base URL of an OpenAI-compatible /v1/audio/transcriptions server
+  whisperModel: string;
+  whisperApiKey: string;
+}
+
+export interface AnalysisVersion {
+  result: AnalysisResult;
+  createdAt: number;
+  transcriptLength: number; // Length of fullTranscript when this analysis was produced
+  // Chunks the analysis has read; later rolling updates send only the others. Absent on older analyses.
+  analyzedChunkIds?: string[];
+  presetId?: string; // Absent on analyses made before presets (hackathon)
+  outputLanguage?: string; // Absent when written in the transcript's own language
+}
+
+export type AudioSourceMode = 'system-and-mic' | 'mic-only' | 'file';
+
+// Per-session speaker identities. Keys are raw transcript labels such as "Speaker 2".
+export interface SpeakerRegistry {
+  names: Record<string, string>; // Label -> person's name
+  merges: Record<string, string>; // Label -> label it was merged into (same person)
+}
+
+// A task pulled out of the analyses and tracked across them
+export interface ActionItem {
+  id: string;
+  text: string;
+  owner?: string; // Person's name or raw speaker label (resolved for display)
+  dueDate?: string; // Local date, YYYY-MM-DD
+  dueText?: string; // The phrase the due date was parsed from, e.g. "by Friday"
+  sourceChunkId?: string; // Transcript chunk the task was most likely spoken in
+  done: boolean;
+  dismissed?: boolean; // Deleted by the user; kept so later analyses don't re-add it
+  createdAt: number;
+}
+
+export type DecisionLogKind = 'decision' | 'question';
+
+// A decision or question pulled out of the analyses and tracked across them
+export interface DecisionLogEntry {
+  id: string;
+  kind: DecisionLogKind;
+  text: string;
+  speaker?: string; // Person's name or raw speaker label (resolved for display)
+  sourceChunkId?: string; // Transcript chunk it was most likely said in
+  timestamp: number; // When it was said: the source chunk's time, or when it was first picked up
+  resolved: boolean; // Questions answered later in the meeting or closed by hand; always false for decisions
+  answer?: string;
+  answerChunkId?: string; // Transcript chunk the answer was most likely given in
+  dismissed?: boolean; // Deleted by the user; kept so later analyses don't re-add it
+  createdAt: number;
+}
+
+// A stretch of the transcript about one topic
+export interface Chapter {
+  id: string;
+  title: string;
+  startChunkId: string;
+  endChunkId: string; // Inclusive
+  summary: string;
+}
+
+// A chapter as a provider returns it: where it starts in the numbered list of chunks it was given
+export interface ChapterDraft {
+  title: string;
+  summary: string;
+  startIndex: number;
+}
+
+export type GlossaryEntryKind = 'term' | 'person';
+
+// A workspace vocabulary entry: a product name, acronym or colleague with its preferred spelling
+export interface GlossaryEntry {
+  id: string;
+  term: string; // Preferred spelling
+  kind: GlossaryEntryKind;
+  variants: string[]; // Known mis-hearings, replaced with `term` after transcription
+  note?: string; // Context for the model, e.g. what an acronym stands for
+}
+
+export interface Session {
+  id: string;
+  title: string;
+  startedAt: number;
+  endedAt?: number;
+  chunks: TranscriptChunk[];
+  analyses: AnalysisVersion[]; // Oldest first; the last entry is the current analysis
+  audioSource: AudioSourceMode;
+  speakers?: SpeakerRegistry; // Absent on sessions saved before speaker naming existed
+  actionItems?: ActionItem[];
+  decisionLog?: DecisionLogEntry[];
+  transcriptEditedAt?: number; // Last manual transcript edit; analyses older than this are stale
+  analysisPresetId?: string;
+  targetLanguage?: string; // Language code transcript chunks are translated into; absent when not translating
+  chapters?: Chapter[];
+}
+
+/**
+ * A piece of a session's recorded (or imported) audio, stored apart from the session record.
+ * Live segments share their id with the transcript chunk transcribed from them.
+ */
+export interface SessionAudioSegment {
+  id: string;
+  sessionId: string;
+  startedAt: number; // Wall-clock ms of the segment's first sample, comparable to chunk timestamps
+  blob: Blob;
+}
+
+// Session fields tracked by the workspace while transcript, analysis and tasks live in their own state
+export type SessionMeta = Omit<Session, 'chunks' | 'analyses' | 'actionItems' | 'decisionLog' | 'chapters'>;
+
 export enum RecordingState {
   IDLE = 'IDLE',
   RECORDING = 'RECORDING',